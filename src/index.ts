@@ -1,4 +1,5 @@
 import 'reflect-metadata'
+import { AsyncLocalStorage } from 'node:async_hooks'
 
 // ============================================================================
 // Type Definitions
@@ -34,6 +35,146 @@ export enum LogLevel {
 	VERBOSE = 'VERBOSE',
 }
 
+/**
+ * Structured context attached to a container log entry
+ */
+export interface LogContext {
+	/** What happened, e.g. `register`, `resolve` or `bootstrap` */
+	event?: string
+	/** Name of the token the entry is about */
+	token?: string
+	/** Resolution weight of the token */
+	weight?: number
+	/** Duration of the operation in milliseconds */
+	duration?: number
+	/** The error the entry reports */
+	error?: unknown
+	[key: string]: unknown
+}
+
+/**
+ * Destination of the container's log output
+ *
+ * Details of registration and resolution, including providers that
+ * `resolveAll()` fails to resolve, are logged with `debug` (only at
+ * `LogLevel.VERBOSE`), important events with `info` and failing hooks with
+ * `error`. Nothing is logged at `LogLevel.OFF`. The container does not call
+ * `warn` itself; it completes the set of levels so one logger can be shared
+ * with the rest of the application.
+ *
+ * @example
+ * import pino from 'pino'
+ *
+ * const log = pino()
+ * container.setLogger({
+ *   debug: (message, context) => log.debug(context, message.trim()),
+ *   info: (message, context) => log.info(context, message.trim()),
+ *   warn: (message, context) => log.warn(context, message.trim()),
+ *   error: (message, context) => log.error(context, message.trim()),
+ * })
+ */
+export interface ContainerLogger {
+	/** Log registration and resolution details */
+	debug(message: string, context?: LogContext): void
+	/** Log important events (bootstrap, resolveAll, destroy) */
+	info(message: string, context?: LogContext): void
+	/** Log recoverable problems (not called by the container, see above) */
+	warn(message: string, context?: LogContext): void
+	/** Log errors, such as failing onDestroy hooks */
+	error(message: string, context?: LogContext): void
+}
+
+/**
+ * Logger writing human-readable messages to the console (the default)
+ *
+ * @example
+ * container.setLogger(new ConsoleLogger())
+ */
+export class ConsoleLogger implements ContainerLogger {
+	debug(message: string): void {
+		console.log(message)
+	}
+
+	info(message: string): void {
+		console.log(message)
+	}
+
+	warn(message: string): void {
+		console.warn(message)
+	}
+
+	error(message: string): void {
+		console.error(message)
+	}
+}
+
+/**
+ * Logger writing one JSON object per line
+ *
+ * Each line holds `level`, `time`, `msg` and the fields of the log context.
+ * Errors are written as `{ name, message }`.
+ *
+ * @example
+ * container.setLogger(new JsonLinesLogger())
+ * // {"level":"info","time":"2024-01-01T00:00:00.000Z","msg":"🚀 Bootstrapping container...","event":"bootstrap"}
+ *
+ * @example
+ * // Write to a custom stream
+ * container.setLogger(new JsonLinesLogger((line) => stream.write(`${line}\n`)))
+ */
+export class JsonLinesLogger implements ContainerLogger {
+	/**
+	 * @param write - Writes a single line (defaults to console.log)
+	 */
+	constructor(
+		private readonly write: (line: string) => void = (line) =>
+			console.log(line),
+	) {}
+
+	debug(message: string, context?: LogContext): void {
+		this.writeEntry('debug', message, context)
+	}
+
+	info(message: string, context?: LogContext): void {
+		this.writeEntry('info', message, context)
+	}
+
+	warn(message: string, context?: LogContext): void {
+		this.writeEntry('warn', message, context)
+	}
+
+	error(message: string, context?: LogContext): void {
+		this.writeEntry('error', message, context)
+	}
+
+	/**
+	 * Serialize a log entry and write it as one line
+	 *
+	 * @private
+	 * @param level - The log level name
+	 * @param message - The log message
+	 * @param context - The structured context
+	 */
+	private writeEntry(
+		level: string,
+		message: string,
+		context: LogContext = {},
+	): void {
+		const entry: Record<string, unknown> = {
+			level,
+			time: new Date().toISOString(),
+			msg: message.trim(),
+		}
+		for (const [key, value] of Object.entries(context)) {
+			entry[key] =
+				value instanceof Error
+					? { name: value.name, message: value.message }
+					: value
+		}
+		this.write(JSON.stringify(entry))
+	}
+}
+
 // ============================================================================
 // Lifecycle Interfaces (NestJS-style)
 // ============================================================================
@@ -87,14 +228,78 @@ export interface OnDestroy {
 
 /**
  * Token used to identify a dependency in the container
- * Can be a string, symbol, or class constructor
+ * Can be a string, symbol, typed Token, or class constructor
  * @template T - The type of value associated with this token
  * @example
  * const TOKEN: InjectionToken<string> = 'MY_TOKEN'
  * const SYMBOL_TOKEN: InjectionToken<number> = Symbol('COUNT')
+ * const TYPED_TOKEN: InjectionToken<Config> = new Token<Config>('CONFIG')
  * const CLASS_TOKEN: InjectionToken<MyService> = MyService
  */
-export type InjectionToken<T = unknown> = string | symbol | Constructor<T>
+export type InjectionToken<T = unknown> =
+	| string
+	| symbol
+	| Token<T>
+	| Constructor<T>
+
+/**
+ * Options for creating a typed token
+ * @template T - The type of value associated with the token
+ */
+export interface TokenOptions<T = unknown> {
+	/** Default factory used when no provider is registered for the token */
+	factory?: () => T | Promise<T>
+}
+
+/**
+ * Typed injection token
+ *
+ * Unlike string and symbol tokens, a Token carries the type of its value,
+ * so `resolve()` and providers infer it without annotations.
+ * Tokens are compared by identity: two tokens with the same description never collide.
+ *
+ * When a default factory is given, the root container registers it as a
+ * singleton factory provider the first time the token is resolved without a provider.
+ *
+ * @template T - The type of value associated with the token
+ * @example
+ * const CONFIG = new Token<Config>('CONFIG')
+ * container.register({ provide: CONFIG, useValue: { port: 3000 } })
+ * const config = await container.resolve(CONFIG) // Config
+ *
+ * @example
+ * // With a default factory
+ * const CLOCK = new Token<Clock>('CLOCK', { factory: () => new SystemClock() })
+ * const clock = await container.resolve(CLOCK) // no registration needed
+ */
+export class Token<T = unknown> {
+	/** Default factory used when no provider is registered for the token */
+	readonly factory?: () => T | Promise<T>
+
+	constructor(
+		readonly description: string,
+		options?: TokenOptions<T>,
+	) {
+		this.factory = options?.factory
+	}
+
+	/**
+	 * Get a human-readable name for the token
+	 *
+	 * @returns The description wrapped in `Token(...)`
+	 */
+	toString(): string {
+		return `Token(${this.description})`
+	}
+}
+
+/**
+ * Lifetime of a provider's instances
+ * - singleton: One instance cached and shared across the container
+ * - transient: A new instance is created on every resolution
+ * - request: One instance per request scope (see `Container.runInScope()`)
+ */
+export type ProviderScope = 'singleton' | 'transient' | 'request'
 
 /**
  * Provider that uses a class constructor to create instances
@@ -113,9 +318,13 @@ export interface ClassProvider<T = unknown> {
 	provide: InjectionToken<T>
 	/** Class constructor to instantiate */
 	useClass: Constructor<T>
-	/** Optional dependencies (affects resolution order/weight) */
+	/** Optional dependencies, tokens or groups (affects resolution order/weight) */
 	// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
-	deps?: (InjectionToken | Constructor<any>)[]
+	deps?: (InjectionToken | Constructor<any> | DynamicGroup)[]
+	/** Optional scope (overrides the scope from @Injectable on useClass) */
+	scope?: ProviderScope
+	/** Contribute to an array of instances instead of replacing the token's provider */
+	multi?: boolean
 	/** Optional lifecycle hook called after instantiation */
 	onInit?: (instance: T) => Promise<void> | void
 	/** Optional lifecycle hook called before destruction */
@@ -136,8 +345,40 @@ export interface ValueProvider<T = unknown> {
 	provide: InjectionToken<T>
 	/** The value to provide */
 	useValue: T
+	/** Contribute to an array of values instead of replacing the token's provider */
+	multi?: boolean
+}
+
+/**
+ * Dependency of a factory provider with options
+ *
+ * Use the object form to mark a dependency as optional: when no provider is
+ * registered for the token, the default value (or undefined) is injected instead.
+ *
+ * @template T - The type of the dependency
+ * @example
+ * {
+ *   provide: 'HTTP_CLIENT',
+ *   useFactory: (metrics?: Metrics) => new HttpClient(metrics),
+ *   deps: [{ token: Metrics, optional: true }]
+ * }
+ */
+export interface FactoryDependencyOptions<T = unknown> {
+	/** Token to inject */
+	token: InjectionToken<T>
+	/** Inject the default value instead of throwing when the token has no provider */
+	optional?: boolean
+	/** Value injected when an optional token has no provider */
+	default?: T
 }
 
+/**
+ * A factory provider dependency: a token or a token with options
+ */
+export type FactoryDependency =
+	// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
+	InjectionToken | Constructor<any> | FactoryDependencyOptions<any>
+
 /**
  * Provider that uses a factory function to create instances
  * @template T - The type of instance to create
@@ -157,14 +398,37 @@ export interface FactoryProvider<T = unknown> {
 	// biome-ignore lint/suspicious/noExplicitAny: Factory function args can be any type
 	useFactory: (...args: any[]) => T | Promise<T>
 	/** Optional dependencies to inject into the factory function */
-	// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
-	deps?: (InjectionToken | Constructor<any>)[]
+	deps?: FactoryDependency[]
+	/** Optional scope (defaults to singleton) */
+	scope?: ProviderScope
+	/** Contribute to an array of instances instead of replacing the token's provider */
+	multi?: boolean
 	/** Optional lifecycle hook called after instantiation */
 	onInit?: (instance: T) => Promise<void> | void
 	/** Optional lifecycle hook called before destruction */
 	onDestroy?: (instance: T) => Promise<void> | void
 }
 
+/**
+ * Provider that aliases another token
+ *
+ * Resolves to the same instance as the target token, instead of creating
+ * a second instance as `useClass` would.
+ *
+ * @template T - The type of the aliased instance
+ * @example
+ * {
+ *   provide: 'Logger',
+ *   useExisting: PinoLogger
+ * }
+ */
+export interface ExistingProvider<T = unknown> {
+	/** Token to identify this provider */
+	provide: InjectionToken<T>
+	/** Token whose instance this provider resolves to */
+	useExisting: InjectionToken<T>
+}
+
 /**
  * Union type of all possible provider configurations
  * @template T - The type of instance to create
@@ -173,7 +437,15 @@ export interface FactoryProvider<T = unknown> {
  *   MyService,  // Plain class
  *   { provide: 'TOKEN', useClass: MyServiceImpl },
  *   { provide: 'VALUE', useValue: 42 },
- *   { provide: 'FACTORY', useFactory: () => createService() }
+ *   { provide: 'FACTORY', useFactory: () => createService() },
+ *   { provide: 'ALIAS', useExisting: 'TOKEN' }
+ * ]
+ *
+ * @example
+ * // Multi providers: every contribution is injected as one array
+ * const providers: Provider[] = [
+ *   { provide: MIDDLEWARE, useClass: CorsMiddleware, multi: true },
+ *   { provide: MIDDLEWARE, useClass: AuthMiddleware, multi: true }
  * ]
  */
 export type Provider<T = unknown> =
@@ -181,6 +453,7 @@ export type Provider<T = unknown> =
 	| ClassProvider<T>
 	| ValueProvider<T>
 	| FactoryProvider<T>
+	| ExistingProvider<T>
 
 // ============================================================================
 // Lazy Injection Support
@@ -191,6 +464,7 @@ export type Provider<T = unknown> =
  *
  * Allows breaking circular dependencies by deferring resolution until the dependency is accessed.
  * The dependency is resolved from the container only when you call `.get()` or `.value`.
+ * Transient providers are never cached, so `.get()` throws for them - inject them directly instead.
  *
  * @template T - The type of the lazy dependency
  *
@@ -214,7 +488,7 @@ export class LazyRef<T = unknown> {
 	 * Get the resolved instance synchronously
 	 *
 	 * @returns The resolved instance
-	 * @throws {Error} If the instance has not been resolved yet
+	 * @throws {UnresolvedInstanceError} If the instance has not been resolved yet
 	 *
 	 * @example
 	 * const instance = lazyRef.get()
@@ -227,7 +501,7 @@ export class LazyRef<T = unknown> {
 	 * Get the resolved instance synchronously via property accessor
 	 *
 	 * @returns The resolved instance
-	 * @throws {Error} If the instance has not been resolved yet
+	 * @throws {UnresolvedInstanceError} If the instance has not been resolved yet
 	 *
 	 * @example
 	 * const result = lazyRef.value.someMethod()
@@ -275,9 +549,7 @@ export class LazyRef<T = unknown> {
 	 * lazyRef.reset() // Instance will be re-created on next access
 	 */
 	reset(): void {
-		// biome-ignore lint/suspicious/noExplicitAny: Accessing private property for testing
-		const instances = (this.container as any).instances
-		instances.delete(this.token)
+		containerInternals.clearInstance(this.container, this.token)
 	}
 }
 
@@ -322,7 +594,7 @@ export function lazy<T>(fn: () => Constructor<T>): LazyRefMarker<T> {
  *
  * @template T - The type of the lazy dependency
  * @param token - The injection token or class constructor to lazily resolve
- * @returns A parameter decorator
+ * @returns A parameter or property decorator
  *
  * @example
  * class ServiceA {
@@ -335,16 +607,28 @@ export function lazy<T>(fn: () => Constructor<T>): LazyRefMarker<T> {
  *     this.serviceB.value.method()
  *   }
  * }
+ *
+ * @example
+ * // On a class field
+ * class ServiceA {
+ *   &#64;Lazy(ServiceB) private serviceB!: LazyRef<ServiceB>
+ * }
  */
 export function Lazy<T>(
 	token: Constructor<T> | InjectionToken<T>,
-): ParameterDecorator {
+): ParameterDecorator & PropertyDecorator {
 	return (
 		target: object,
-		_propertyKey: string | symbol | undefined,
-		parameterIndex: number,
+		propertyKey: string | symbol | undefined,
+		parameterIndex?: number,
 	) => {
-		const existingTokens = Reflect.getMetadata('inject:tokens', target) || []
+		if (parameterIndex === undefined) {
+			defineInjectedProperty(target, propertyKey as string | symbol, {
+				token: { __lazyToken: token },
+			})
+			return
+		}
+		const existingTokens = Reflect.getOwnMetadata('inject:tokens', target) || []
 		// Store a special marker that tells the container to inject a LazyRef
 		existingTokens[parameterIndex] = { __lazyToken: token }
 		Reflect.defineMetadata('inject:tokens', existingTokens, target)
@@ -365,6 +649,194 @@ export const forwardRef: typeof lazy = lazy
  */
 export type ForwardRef<T = unknown> = LazyRefMarker<T>
 
+// ============================================================================
+// Request Scope Support
+// ============================================================================
+
+/**
+ * Check if an instance implements the OnDestroy interface
+ *
+ * @param instance - The instance to check
+ * @returns True if the instance has an onDestroy method
+ */
+function hasOnDestroy(instance: unknown): instance is OnDestroy {
+	return (
+		typeof instance === 'object' &&
+		instance !== null &&
+		'onDestroy' in instance &&
+		typeof instance.onDestroy === 'function'
+	)
+}
+
+/**
+ * Per-request instance cache for request-scoped providers
+ *
+ * A RequestScope sits on top of the container's singleton instances.
+ * Code running inside `scope.run()` (including everything it awaits) resolves
+ * request-scoped providers from this scope's cache.
+ * Create scopes with `container.createScope()` or use `container.runInScope()`.
+ *
+ * @example
+ * const scope = container.createScope()
+ * try {
+ *   await scope.run(() => handleRequest())
+ * } finally {
+ *   await scope.destroy()
+ * }
+ */
+export class RequestScope {
+	// Cache instantiated request-scoped services (in creation order)
+	private readonly instances = new Map<
+		InjectionToken | Constructor<unknown>,
+		unknown
+	>()
+
+	// Provider-level onDestroy hooks of the cached instances
+	private readonly destroyHooks = new Map<
+		InjectionToken | Constructor<unknown>,
+		(instance: unknown) => Promise<void> | void
+	>()
+
+	// In-flight creations of request-scoped instances, shared by concurrent callers
+	private readonly pending = new Map<
+		InjectionToken | Constructor<unknown>,
+		Promise<unknown>
+	>()
+
+	/**
+	 * @internal Use `container.createScope()` instead
+	 */
+	constructor(
+		private readonly storage: AsyncLocalStorage<RequestScope>,
+		private readonly onError: (error: LifecycleHookError) => void,
+	) {}
+
+	/**
+	 * Run a callback inside this scope
+	 *
+	 * The scope is propagated through `await` to everything the callback calls.
+	 *
+	 * @template R - The callback result type
+	 * @param callback - The function to run
+	 * @returns The callback result
+	 */
+	run<R>(callback: () => R): R {
+		return this.storage.run(this, callback)
+	}
+
+	/**
+	 * Check if an instance for a token is cached in this scope
+	 *
+	 * @param token - The injection token or class constructor
+	 * @returns True if this scope holds an instance for the token
+	 */
+	has(token: InjectionToken | Constructor<unknown>): boolean {
+		return this.instances.has(token)
+	}
+
+	/**
+	 * Get an instance cached in this scope
+	 *
+	 * @template T - The type of instance to get
+	 * @param token - The injection token or class constructor
+	 * @returns The cached instance or undefined
+	 */
+	get<T = unknown>(token: InjectionToken<T> | Constructor<T>): T | undefined {
+		return this.instances.get(token) as T | undefined
+	}
+
+	/**
+	 * Cache an instance in this scope
+	 *
+	 * @internal Called by the container after creating a request-scoped instance
+	 * @param token - The injection token or class constructor
+	 * @param instance - The created instance
+	 * @param onDestroy - Optional provider-level onDestroy hook
+	 */
+	set(
+		token: InjectionToken | Constructor<unknown>,
+		instance: unknown,
+		onDestroy?: (instance: unknown) => Promise<void> | void,
+	): void {
+		this.instances.set(token, instance)
+		if (onDestroy) {
+			this.destroyHooks.set(token, onDestroy)
+		}
+	}
+
+	/**
+	 * Get the in-flight creation of an instance in this scope
+	 *
+	 * @internal Used by the container to share a creation between concurrent callers
+	 * @param token - The injection token or class constructor
+	 * @returns The promise of the instance being created, or undefined
+	 */
+	getPending(
+		token: InjectionToken | Constructor<unknown>,
+	): Promise<unknown> | undefined {
+		return this.pending.get(token)
+	}
+
+	/**
+	 * Track the in-flight creation of an instance until it settles
+	 *
+	 * @internal Called by the container before creating a request-scoped instance
+	 * @param token - The injection token or class constructor
+	 * @param creation - The promise of the instance being created
+	 */
+	setPending(
+		token: InjectionToken | Constructor<unknown>,
+		creation: Promise<unknown>,
+	): void {
+		this.pending.set(token, creation)
+		const settle = () => {
+			if (this.pending.get(token) === creation) {
+				this.pending.delete(token)
+			}
+		}
+		creation.then(settle, settle)
+	}
+
+	/**
+	 * End the scope and clean up its instances
+	 *
+	 * Waits for in-flight creations, then calls onDestroy hooks (provider-level first,
+	 * then instance-level) in reverse order of instantiation. Errors are logged and do not stop cleanup.
+	 *
+	 * @returns A promise that resolves when all cleanup is complete
+	 */
+	async destroy(): Promise<void> {
+		// Creations may start others (nested request-scoped dependencies), so drain until none are left
+		while (this.pending.size > 0) {
+			await Promise.allSettled(this.pending.values())
+		}
+
+		const tokens = Array.from(this.instances.keys()).reverse()
+
+		for (const token of tokens) {
+			const instance = this.instances.get(token)
+			if (!instance) continue
+
+			try {
+				const onDestroy = this.destroyHooks.get(token)
+				if (onDestroy) {
+					await onDestroy(instance)
+				}
+				if (hasOnDestroy(instance)) {
+					await instance.onDestroy()
+				}
+			} catch (error) {
+				const tokenName =
+					typeof token === 'function' ? token.name : String(token)
+				this.onError(new LifecycleHookError(tokenName, 'onDestroy', error))
+			}
+		}
+
+		this.instances.clear()
+		this.destroyHooks.clear()
+	}
+}
+
 // ============================================================================
 // Decorators
 // ============================================================================
@@ -377,10 +849,10 @@ export interface InjectableOptions {
 	/**
 	 * Scope of the injectable service
 	 * - singleton (default): Single instance shared across the container
-	 * - transient: New instance created each time (future feature)
-	 * - request: Instance scoped to request lifecycle (future feature)
+	 * - transient: New instance created on every resolution (never cached)
+	 * - request: One instance per request scope, destroyed when the scope ends
 	 */
-	scope?: 'singleton' | 'transient' | 'request'
+	scope?: ProviderScope
 
 	/**
 	 * Custom metadata for the injectable
@@ -418,31 +890,95 @@ export interface InjectableOptions {
  * }
  *
  * @example
- * // With scope (for future features)
- * &#64;Injectable({ scope: 'singleton' })
- * class ConfigService {
+ * // Transient scope: a fresh instance for every injection
+ * &#64;Injectable({ scope: 'transient' })
+ * class UnitOfWork {
  *   // ...
  * }
  */
 export function Injectable(options?: InjectableOptions): ClassDecorator {
 	return (target: object) => {
-		// Store injectable metadata for future use
-		const metadata = {
-			scope: 'singleton',
-			...(options || {}),
-		}
-		Reflect.defineMetadata('injectable:options', metadata, target)
+		// Store the options as given, defaults and base class options are merged on read
+		Reflect.defineMetadata('injectable:options', { ...options }, target)
+	}
+}
+
+/**
+ * A class field injected after construction (see `@Inject()` on properties)
+ */
+interface InjectedProperty {
+	/** Name of the field */
+	key: string | symbol
+	/** Token to inject, or a lazy marker */
+	token?: unknown
+	/** Inject undefined when the token has no provider */
+	optional?: boolean
+}
+
+/**
+ * Record injection metadata for a class field
+ *
+ * Fields are stored on the class constructor. The list inherited from a base
+ * class is copied, so decorating a subclass never changes the base class.
+ *
+ * @param prototype - The class prototype the field decorator was applied to
+ * @param key - The name of the field
+ * @param update - The metadata to merge into the field entry
+ */
+function defineInjectedProperty(
+	prototype: object,
+	key: string | symbol,
+	update: Omit<InjectedProperty, 'key'>,
+): void {
+	const target = prototype.constructor
+	const properties: InjectedProperty[] = [
+		...(Reflect.getMetadata('inject:properties', target) || []),
+	]
+	const index = properties.findIndex((property) => property.key === key)
+	if (index === -1) {
+		properties.push({ key, ...update })
+	} else {
+		properties[index] = { ...properties[index], key, ...update }
 	}
+	Reflect.defineMetadata('inject:properties', properties, target)
+}
+
+/**
+ * Get the injected fields of a class, including inherited ones
+ *
+ * Fields decorated with `@Optional()` but no `@Inject()` are injected by
+ * their declared type, like constructor parameters.
+ *
+ * @param target - The class to get the fields of
+ * @returns The injected fields with their tokens
+ */
+function getInjectedProperties(target: object): InjectedProperty[] {
+	const properties: InjectedProperty[] =
+		Reflect.getMetadata('inject:properties', target) || []
+	return properties.map((property) =>
+		property.token
+			? property
+			: {
+					...property,
+					token: Reflect.getMetadata(
+						'design:type',
+						(target as { prototype: object }).prototype,
+						property.key,
+					),
+				},
+	)
 }
 
 /**
- * Inject parameter decorator
+ * Inject parameter and property decorator
  *
  * Specifies which token to use for injecting a dependency.
  * Use this when you need to inject a value by token instead of by type.
+ * On a class field, the dependency is injected after construction and
+ * before any onInit hook runs.
  *
- * @param token - The injection token to use for this parameter
- * @returns A parameter decorator
+ * @param token - The injection token to use for this parameter or field
+ * @returns A parameter or property decorator
  *
  * @example
  * // Inject by string token
@@ -464,43 +1000,320 @@ export function Injectable(options?: InjectableOptions): ClassDecorator {
  *     @Inject(lazy(() => ServiceB)) private serviceB: LazyRef<ServiceB>
  *   ) {}
  * }
+ *
+ * @example
+ * // Inject into a class field
+ * class MyService {
+ *   &#64;Inject(LOGGER) private logger!: Logger
+ * }
  */
 export function Inject(
 	token: InjectionToken | LazyRefMarker,
-): ParameterDecorator {
+): ParameterDecorator & PropertyDecorator {
 	return (
 		target: object,
-		_propertyKey: string | symbol | undefined,
-		parameterIndex: number,
+		propertyKey: string | symbol | undefined,
+		parameterIndex?: number,
 	) => {
-		const existingTokens = Reflect.getMetadata('inject:tokens', target) || []
+		if (parameterIndex === undefined) {
+			defineInjectedProperty(target, propertyKey as string | symbol, { token })
+			return
+		}
+		const existingTokens = Reflect.getOwnMetadata('inject:tokens', target) || []
 		existingTokens[parameterIndex] = token
 		Reflect.defineMetadata('inject:tokens', existingTokens, target)
 	}
 }
 
 /**
- * Get injectable metadata from a class
+ * Optional parameter decorator
  *
- * Retrieves the metadata stored by the @Injectable() decorator.
- * Useful for inspecting or utilizing the metadata at runtime.
+ * Marks a constructor parameter or injected field as optional: when no provider
+ * is registered for its token, undefined is injected instead of throwing.
+ * A field without `@Inject()` is injected by its declared type.
+ * Missing optional dependencies do not count towards the dependency weight.
  *
- * @param target - The class to get metadata from
- * @returns The injectable options or undefined if not decorated with @Injectable
+ * @returns A parameter or property decorator
  *
  * @example
- * &#64;Injectable({ metadata: { role: 'service' } })
- * class MyService {}
+ * class HttpClient {
+ *   constructor(
+ *     &#64;Optional() private metrics?: MetricsService,
+ *     &#64;Optional() &#64;Inject('TRACER') private tracer?: Tracer
+ *   ) {}
  *
- * const metadata = getInjectableMetadata(MyService)
- * console.log(metadata?.scope) // 'singleton'
- * console.log(metadata?.metadata) // { role: 'service' }
+ *   &#64;Optional() &#64;Inject('CACHE') private cache?: Cache
+ * }
  */
-export function getInjectableMetadata(
-	target: Constructor<unknown>,
-): InjectableOptions | undefined {
-	return Reflect.getMetadata('injectable:options', target)
-}
+export function Optional(): ParameterDecorator & PropertyDecorator {
+	return (
+		target: object,
+		propertyKey: string | symbol | undefined,
+		parameterIndex?: number,
+	) => {
+		if (parameterIndex === undefined) {
+			defineInjectedProperty(target, propertyKey as string | symbol, {
+				optional: true,
+			})
+			return
+		}
+		const optionalParams: boolean[] =
+			Reflect.getOwnMetadata('inject:optional', target) || []
+		optionalParams[parameterIndex] = true
+		Reflect.defineMetadata('inject:optional', optionalParams, target)
+	}
+}
+
+/**
+ * Get injectable metadata from a class
+ *
+ * Retrieves the metadata stored by the @Injectable() decorator.
+ * Useful for inspecting or utilizing the metadata at runtime.
+ * Options of decorated base classes are merged in, with the subclass taking
+ * precedence; custom `metadata` records are merged key by key.
+ *
+ * @param target - The class to get metadata from
+ * @returns The injectable options or undefined if neither the class nor a base class is decorated with @Injectable
+ *
+ * @example
+ * &#64;Injectable({ metadata: { role: 'service' } })
+ * class MyService {}
+ *
+ * const metadata = getInjectableMetadata(MyService)
+ * console.log(metadata?.scope) // 'singleton'
+ * console.log(metadata?.metadata) // { role: 'service' }
+ *
+ * @example
+ * &#64;Injectable({ scope: 'transient', metadata: { layer: 'data' } })
+ * abstract class BaseRepository {}
+ *
+ * &#64;Injectable({ metadata: { entity: 'user' } })
+ * class UserRepository extends BaseRepository {}
+ *
+ * getInjectableMetadata(UserRepository)
+ * // { scope: 'transient', metadata: { layer: 'data', entity: 'user' } }
+ */
+export function getInjectableMetadata(
+	target: Constructor<unknown>,
+): InjectableOptions | undefined {
+	// Collect the options of the class hierarchy, base classes first
+	const chain: InjectableOptions[] = []
+	for (
+		let current: unknown = target;
+		typeof current === 'function' && current !== Function.prototype;
+		current = Object.getPrototypeOf(current)
+	) {
+		const options = Reflect.getOwnMetadata('injectable:options', current)
+		if (options) {
+			chain.unshift(options)
+		}
+	}
+
+	if (chain.length === 0) {
+		return undefined
+	}
+
+	const merged: InjectableOptions = { scope: 'singleton' }
+	for (const options of chain) {
+		const metadata = options.metadata
+			? { ...merged.metadata, ...options.metadata }
+			: merged.metadata
+		Object.assign(merged, options)
+		if (metadata) {
+			merged.metadata = metadata
+		}
+	}
+	return merged
+}
+
+/**
+ * Constructor injection metadata of a class
+ */
+interface ConstructorMetadata {
+	/** Parameter types emitted by TypeScript */
+	// biome-ignore lint/suspicious/noExplicitAny: Constructor parameters can be of any type
+	paramTypes: Constructor<any>[]
+	/** Tokens set with `@Inject()` or `@Lazy()`, by parameter index */
+	tokens: unknown[]
+	/** Parameters marked with `@Optional()`, by parameter index */
+	optional: boolean[]
+}
+
+/**
+ * Get the constructor injection metadata of a class
+ *
+ * A class that declares its own constructor uses its own metadata only.
+ * A subclass without a constructor reuses the metadata of the nearest base
+ * class that declares one, since that is the constructor that runs.
+ * A subclass that declares a constructor must be decorated (e.g. with
+ * `@Injectable()`) for TypeScript to emit its parameter types.
+ *
+ * @param target - The class to get metadata from
+ * @returns The parameter types, tokens and optional flags of the constructor
+ */
+function getConstructorMetadata(
+	// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+	target: Constructor<any>,
+): ConstructorMetadata {
+	const declaresConstructor = (candidate: object) =>
+		Reflect.hasOwnMetadata('design:paramtypes', candidate) ||
+		Reflect.hasOwnMetadata('inject:tokens', candidate) ||
+		Reflect.hasOwnMetadata('inject:optional', candidate)
+
+	let owner: object = target
+	for (
+		let current: unknown = target;
+		typeof current === 'function' && current !== Function.prototype;
+		current = Object.getPrototypeOf(current)
+	) {
+		if (declaresConstructor(current)) {
+			owner = current
+			break
+		}
+	}
+
+	return {
+		paramTypes: Reflect.getOwnMetadata('design:paramtypes', owner) || [],
+		tokens: Reflect.getOwnMetadata('inject:tokens', owner) || [],
+		optional: Reflect.getOwnMetadata('inject:optional', owner) || [],
+	}
+}
+
+// ============================================================================
+// Interceptors
+// ============================================================================
+
+/**
+ * A method call seen by an interceptor
+ */
+export interface InvocationContext {
+	/** The instance whose method is called (not the intercepting proxy) */
+	// biome-ignore lint/suspicious/noExplicitAny: Instance can be of any type
+	instance: any
+	/** Name of the called method */
+	method: string | symbol
+	/** Arguments of the call, which interceptors may replace before calling next() */
+	args: unknown[]
+	/** Token the instance was resolved for */
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	token: InjectionToken | Constructor<any>
+}
+
+/**
+ * Wraps the method calls of resolved instances
+ *
+ * Call `next()` to run the next interceptor, and eventually the method itself,
+ * and return its result. Not calling it skips the method (e.g. for caching),
+ * calling it again runs it again (e.g. for retries). For async methods,
+ * `next()` returns the promise.
+ *
+ * @example
+ * const timing: Interceptor = async ({ token, method }, next) => {
+ *   const startedAt = performance.now()
+ *   try {
+ *     return await next()
+ *   } finally {
+ *     console.log(`${String(token)}.${String(method)}: ${performance.now() - startedAt}ms`)
+ *   }
+ * }
+ */
+export type Interceptor = (
+	context: InvocationContext,
+	next: () => unknown,
+) => unknown
+
+/**
+ * Selects the tokens `Container.interceptWhere()` applies to
+ */
+export type InterceptorPredicate = (
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	token: InjectionToken | Constructor<any>,
+) => boolean
+
+/**
+ * Get the interceptors declared with `@UseInterceptors()` on a class
+ *
+ * Interceptors of base classes come first, then those of the class itself.
+ *
+ * @param target - The class of the instance
+ * @returns The class-level interceptors and the interceptors of each method
+ */
+function getInterceptorMetadata(target: unknown): {
+	all: Interceptor[]
+	methods: Map<string | symbol, Interceptor[]>
+} {
+	const all: Interceptor[] = []
+	const methods = new Map<string | symbol, Interceptor[]>()
+	const chain: object[] = []
+	for (
+		let current = target;
+		typeof current === 'function' && current !== Function.prototype;
+		current = Object.getPrototypeOf(current)
+	) {
+		chain.unshift(current)
+	}
+
+	for (const owner of chain) {
+		all.push(...(Reflect.getOwnMetadata('interceptors:class', owner) || []))
+		const own: Map<string | symbol, Interceptor[]> =
+			Reflect.getOwnMetadata('interceptors:methods', owner) || new Map()
+		for (const [method, interceptors] of own) {
+			methods.set(method, [...(methods.get(method) ?? []), ...interceptors])
+		}
+	}
+	return { all, methods }
+}
+
+/**
+ * Intercept the methods of a class, or a single method
+ *
+ * On a class, the interceptors wrap every method of its resolved instances;
+ * on a method, only that method. Interceptors run in the order given, class
+ * interceptors before method interceptors, and after those registered with
+ * `Container.intercept()`. Instances the container creates are intercepted,
+ * whether their class is registered or built on demand; instances created
+ * with `new` or registered with `useValue` are not. Lifecycle hooks
+ * (`onInit`, `onDestroy`) are never intercepted.
+ *
+ * @param interceptors - The interceptors to apply
+ * @returns A class or method decorator
+ *
+ * @example
+ * &#64;Injectable()
+ * &#64;UseInterceptors(logging)
+ * class UserService {
+ *   &#64;UseInterceptors(retry(3))
+ *   async fetchUser(id: string) {
+ *     // ...
+ *   }
+ * }
+ */
+export function UseInterceptors(
+	...interceptors: Interceptor[]
+): ClassDecorator & MethodDecorator {
+	return (target: object, propertyKey?: string | symbol) => {
+		if (propertyKey === undefined) {
+			Reflect.defineMetadata(
+				'interceptors:class',
+				[
+					...interceptors,
+					...(Reflect.getOwnMetadata('interceptors:class', target) || []),
+				],
+				target,
+			)
+			return
+		}
+		const owner = target.constructor
+		const methods = new Map<string | symbol, Interceptor[]>(
+			Reflect.getOwnMetadata('interceptors:methods', owner),
+		)
+		methods.set(propertyKey, [
+			...interceptors,
+			...(methods.get(propertyKey) ?? []),
+		])
+		Reflect.defineMetadata('interceptors:methods', methods, owner)
+	}
+}
 
 // ============================================================================
 // Group Decorator (for grouping providers)
@@ -513,17 +1326,31 @@ export function getInjectableMetadata(
 export interface GroupOptions {
 	/**
 	 * Providers that belong to this group
-	 * Can include classes, providers, or other groups
+	 * Can include classes, providers, or other (dynamic) groups
 	 */
-	// biome-ignore lint/suspicious/noExplicitAny: Providers can be of any type
-	providers?: Array<Provider<any>>
+	providers?: ProviderOrGroup[]
 
 	/**
-	 * Dependencies for weight calculation
+	 * Dependencies for weight calculation, tokens or groups
 	 * These affect resolution order even if not directly used
 	 */
 	// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
-	deps?: (InjectionToken | Constructor<any>)[]
+	deps?: (InjectionToken | Constructor<any> | DynamicGroup)[]
+
+	/**
+	 * Groups whose exported providers this group's providers can inject
+	 * Imported groups are registered together with this group
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: Groups can be constructors of any type
+	imports?: Array<Constructor<any> | DynamicGroup>
+
+	/**
+	 * Tokens of this group that other groups may inject
+	 * When set, every other provider of the group is private to it.
+	 * When omitted, all providers of the group are public.
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: Exports can be of any type
+	exports?: (InjectionToken | Constructor<any>)[]
 
 	/**
 	 * Additional options (for future extensibility)
@@ -531,6 +1358,86 @@ export interface GroupOptions {
 	[key: string]: unknown
 }
 
+/**
+ * A configured instance of a group, returned by static methods such as `forRoot()`
+ *
+ * The providers, imports and exports are added to those declared by @Group
+ * on the group class. A dynamic group can be used anywhere a group can.
+ *
+ * @example
+ * &#64;Group({ providers: [DatabaseService], exports: [DatabaseService] })
+ * class DatabaseModule {
+ *   static forRoot(options: DbOptions): DynamicGroup {
+ *     return {
+ *       group: DatabaseModule,
+ *       providers: [{ provide: DB_OPTIONS, useValue: options }]
+ *     }
+ *   }
+ * }
+ *
+ * await container.bootstrap([DatabaseModule.forRoot({ url: 'postgres://...' })])
+ */
+export interface DynamicGroup {
+	/** The @Group decorated class being configured */
+	// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+	group: Constructor<any>
+	/** Additional providers of the group */
+	providers?: ProviderOrGroup[]
+	/** Additional groups to import */
+	// biome-ignore lint/suspicious/noExplicitAny: Groups can be constructors of any type
+	imports?: Array<Constructor<any> | DynamicGroup>
+	/** Additional exported tokens */
+	// biome-ignore lint/suspicious/noExplicitAny: Exports can be of any type
+	exports?: (InjectionToken | Constructor<any>)[]
+}
+
+/**
+ * Options for async dynamic groups (`forRootAsync()` style)
+ *
+ * The group options are produced by a factory whose dependencies are injected,
+ * typically registered as a factory provider of the dynamic group.
+ *
+ * @template T - The type of the group options
+ *
+ * @example
+ * &#64;Group({ providers: [DatabaseService], exports: [DatabaseService] })
+ * class DatabaseModule {
+ *   static forRootAsync(options: GroupAsyncOptions<DbOptions>): DynamicGroup {
+ *     return {
+ *       group: DatabaseModule,
+ *       imports: options.imports,
+ *       providers: [
+ *         { provide: DB_OPTIONS, useFactory: options.useFactory, deps: options.deps }
+ *       ]
+ *     }
+ *   }
+ * }
+ *
+ * await container.bootstrap([
+ *   DatabaseModule.forRootAsync({
+ *     imports: [ConfigModule],
+ *     useFactory: (config: ConfigService) => config.get('database'),
+ *     deps: [ConfigService]
+ *   })
+ * ])
+ */
+export interface GroupAsyncOptions<T = unknown> {
+	/** Groups whose exports the factory depends on */
+	// biome-ignore lint/suspicious/noExplicitAny: Groups can be constructors of any type
+	imports?: Array<Constructor<any> | DynamicGroup>
+	/** Factory producing the group options */
+	// biome-ignore lint/suspicious/noExplicitAny: Factory function args can be any type
+	useFactory: (...args: any[]) => T | Promise<T>
+	/** Dependencies to inject into the factory function */
+	deps?: FactoryDependency[]
+}
+
+/**
+ * Anything that can be listed as a provider: a provider, a group or a dynamic group
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Providers can be of any type
+export type ProviderOrGroup = Provider<any> | DynamicGroup
+
 /**
  * Group class decorator
  *
@@ -563,6 +1470,16 @@ export interface GroupOptions {
  *   AuthModule,
  *   AppService
  * ])
+ *
+ * @example
+ * // Encapsulated group: only UserService can be injected from outside,
+ * // and only by ungrouped providers or groups importing UserModule
+ * &#64;Group({
+ *   imports: [DatabaseModule],
+ *   providers: [UserService, UserRepository],
+ *   exports: [UserService]
+ * })
+ * class UserModule {}
  */
 export function Group(options: GroupOptions = {}): ClassDecorator {
 	return (target: object) => {
@@ -570,6 +1487,7 @@ export function Group(options: GroupOptions = {}): ClassDecorator {
 		const metadata = {
 			providers: [],
 			deps: [],
+			imports: [],
 			...options,
 		}
 		Reflect.defineMetadata('group:options', metadata, target)
@@ -616,1198 +1534,5441 @@ export function isGroup(target: any): target is Constructor<any> {
 	)
 }
 
+/**
+ * Check if a value is a dynamic group (`{ group, providers, exports }`)
+ *
+ * @param target - The value to check
+ * @returns True if the value is a dynamic group of a @Group decorated class
+ *
+ * @example
+ * if (isDynamicGroup(DatabaseModule.forRoot(options))) {
+ *   console.log('Configured group')
+ * }
+ */
+export function isDynamicGroup(target: unknown): target is DynamicGroup {
+	return (
+		typeof target === 'object' &&
+		target !== null &&
+		'group' in target &&
+		isGroup(target.group)
+	)
+}
+
 // ============================================================================
-// Container with Injection Tokens
+// Errors
 // ============================================================================
 
 /**
- * Dependency Injection Container
- *
- * The Container manages dependency registration, resolution, and lifecycle.
- * It supports multiple provider types (class, value, factory), automatic dependency
- * resolution, circular dependency detection, lazy injection, and more.
- *
- * The container is a singleton - use `Container.createOrGet()` to access it.
+ * Base class of the errors thrown by the container
  *
  * @example
- * // Get the container instance
- * const container = Container.createOrGet()
+ * try {
+ *   await container.resolve(AppService)
+ * } catch (error) {
+ *   if (error instanceof ContainerError) {
+ *     alert(error.name, error.message)
+ *   }
+ * }
+ */
+export class ContainerError extends Error {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options)
+		this.name = 'ContainerError'
+	}
+}
+
+/**
+ * Where a missing token was requested from
+ */
+export interface ProviderNotFoundDetails {
+	/** Name of the token that requested the missing token */
+	requiredBy?: string
+	/** Index of the constructor parameter or factory dependency */
+	parameterIndex?: number
+	/** Name of the injected field */
+	propertyKey?: string | symbol
+	/** Names of registered tokens similar to the missing one */
+	suggestions?: string[]
+}
+
+/**
+ * Thrown when a token has no provider
  *
- * @example
- * // Register and resolve services
- * container.register(MyService)
- * const instance = await container.resolve(MyService)
+ * The message names the requesting token and parameter, the full resolution
+ * chain and similarly named registered tokens:
+ *
+ * ```
+ * No provider found for token: DB_POOL
+ *   Required by: UserRepository (parameter at index 0)
+ *   Chain: AppService -> UserService -> UserRepository -> DB_POOL
+ *   Did you mean: DB_POOL_SIZE?
+ * ```
  *
  * @example
- * // Bootstrap with multiple providers
- * await container.bootstrap([
- *   ServiceA,
- *   ServiceB,
- *   { provide: 'CONFIG', useValue: config }
- * ])
+ * catch (error) {
+ *   if (error instanceof ProviderNotFoundError) {
+ *     console.error(error.token, error.chain.join(' -> '))
+ *   }
+ * }
  */
-export class Container {
-	private static instance: Container
-
-	// Store providers by token
-	private readonly providers = new Map<
-		InjectionToken | Constructor<unknown>,
-		Provider<unknown>
-	>()
-
-	// Cache instantiated services
-	private readonly instances = new Map<
-		InjectionToken | Constructor<unknown>,
-		unknown
-	>()
-
-	// Track resolution to detect circular dependencies
-	private readonly resolutionStack = new Set<
-		InjectionToken | Constructor<unknown>
-	>()
-
-	// Cache for dependency weights
-	private readonly weightCache = new Map<
-		InjectionToken | Constructor<unknown>,
-		number
-	>()
+export class ProviderNotFoundError extends ContainerError {
+	/** Name of the token without a provider */
+	readonly token: string
+	/** Resolution chain that requested the token, ending with the token */
+	readonly chain: string[]
+	/** Name of the token that requested the missing token */
+	readonly requiredBy?: string
+	/** Index of the constructor parameter or factory dependency */
+	readonly parameterIndex?: number
+	/** Name of the injected field */
+	readonly propertyKey?: string | symbol
+	/** Names of registered tokens similar to the missing one */
+	readonly suggestions: string[]
 
-	// Track provider metadata for lifecycle hooks
-	private readonly providerMetadata = new Map<
-		InjectionToken | Constructor<unknown>,
-		{
-			provider: Provider<unknown>
-			onDestroy?: (instance: unknown) => Promise<void> | void
+	constructor(
+		token: string,
+		chain: string[],
+		details: ProviderNotFoundDetails = {},
+	) {
+		const { requiredBy, parameterIndex, propertyKey } = details
+		const suggestions = details.suggestions ?? []
+		const lines = [`No provider found for token: ${token}`]
+		if (requiredBy) {
+			const position =
+				parameterIndex !== undefined
+					? ` (parameter at index ${parameterIndex})`
+					: propertyKey !== undefined
+						? ` (property ${String(propertyKey)})`
+						: ''
+			lines.push(`  Required by: ${requiredBy}${position}`)
 		}
-	>()
+		if (chain.length > 1) {
+			lines.push(`  Chain: ${chain.join(' -> ')}`)
+		}
+		if (suggestions.length > 0) {
+			lines.push(`  Did you mean: ${suggestions.join(', ')}?`)
+		}
+		super(lines.join('\n'))
+		this.name = 'ProviderNotFoundError'
+		this.token = token
+		this.chain = chain
+		this.requiredBy = requiredBy
+		this.parameterIndex = parameterIndex
+		this.propertyKey = propertyKey
+		this.suggestions = suggestions
+	}
+}
 
-	// Logging configuration
-	private logLevel: LogLevel = LogLevel.VERBOSE
+/**
+ * Thrown when a token depends on itself without `@Lazy()`
+ */
+export class CircularDependencyError extends ContainerError {
+	/** Name of the token that was requested again */
+	readonly token: string
+	/** Resolution chain, starting and ending with the repeated token */
+	readonly chain: string[]
+
+	constructor(chain: string[]) {
+		super(`Circular dependency detected!\nChain: ${chain.join(' -> ')}`)
+		this.name = 'CircularDependencyError'
+		this.token = chain[chain.length - 1] ?? ''
+		this.chain = chain
+	}
+}
+
+/**
+ * Thrown when an instance is read synchronously before it was resolved
+ * (`getInstanceOrThrow()`, `LazyRef.get()`)
+ */
+export class UnresolvedInstanceError extends ContainerError {
+	/** Name of the token without a cached instance */
+	readonly token: string
+
+	constructor(token: string, message = `Instance not resolved yet: ${token}`) {
+		super(message)
+		this.name = 'UnresolvedInstanceError'
+		this.token = token
+	}
+}
 
-	private constructor() {}
+/**
+ * Thrown when the type of a constructor parameter or field is unknown
+ *
+ * The parameter type is undefined when TypeScript could not emit it,
+ * usually because of a circular import.
+ */
+export class UndefinedParameterTypeError extends ContainerError {
+	/** Name of the class being instantiated */
+	readonly token: string
+	/** Resolution chain that requested the class, ending with the class */
+	readonly chain: string[]
+	/** Index of the constructor parameter, for parameters */
+	readonly parameterIndex?: number
+	/** Name of the field, for injected fields */
+	readonly propertyKey?: string | symbol
 
 	/**
-	 * Get or create the singleton container instance
-	 *
-	 * @returns The singleton container instance
-	 *
-	 * @example
-	 * const container = Container.createOrGet()
+	 * @param token - Name of the class being instantiated
+	 * @param position - The parameter index, or the field name
+	 * @param chain - Resolution chain that requested the class
 	 */
-	public static createOrGet(): Container {
-		if (!Container.instance) {
-			Container.instance = new Container()
+	constructor(
+		token: string,
+		position: number | string | symbol,
+		chain: string[] = [token],
+	) {
+		super(
+			(typeof position === 'number'
+				? `Cannot resolve dependency at index ${position} for ${token}. `
+				: `Cannot resolve property ${String(position)} of ${token}. `) +
+				`Use @Inject decorator to specify a token.` +
+				(chain.length > 1 ? `\n  Chain: ${chain.join(' -> ')}` : ''),
+		)
+		this.name = 'UndefinedParameterTypeError'
+		this.token = token
+		this.chain = chain
+		if (typeof position === 'number') {
+			this.parameterIndex = position
+		} else {
+			this.propertyKey = position
 		}
-		return Container.instance
 	}
+}
 
-	/**
-	 * Get or create the singleton container instance
-	 *
-	 * @deprecated Use createOrGet() instead
-	 * @returns The singleton container instance
-	 */
-	public static getContainer(): Container {
-		return Container.createOrGet()
-	}
+/**
+ * Thrown when an onInit or onDestroy hook fails
+ *
+ * The error thrown by the hook is available as `cause`.
+ */
+export class LifecycleHookError extends ContainerError {
+	/** Name of the token whose hook failed */
+	readonly token: string
+	/** The hook that failed */
+	readonly hook: 'onInit' | 'onDestroy'
+
+	constructor(token: string, hook: 'onInit' | 'onDestroy', cause: unknown) {
+		super(
+			`${hook} hook failed for ${token}: ${cause instanceof Error ? cause.message : String(cause)}`,
+			{ cause },
+		)
+		this.name = 'LifecycleHookError'
+		this.token = token
+		this.hook = hook
+	}
+}
+
+/**
+ * Thrown by the graph assertion helpers (`expectNoCycles()`, `expectDependsOn()`, ...)
+ * when the dependency graph breaks the expectation
+ */
+export class GraphAssertionError extends ContainerError {
+	constructor(message: string) {
+		super(message)
+		this.name = 'GraphAssertionError'
+	}
+}
+
+/**
+ * Number of single-character edits between two strings (Levenshtein distance)
+ *
+ * @param a - The first string
+ * @param b - The second string
+ * @returns The edit distance
+ */
+function getEditDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i]
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = a[i - 1] === b[j - 1] ? 0 : 1
+			current[j] = Math.min(
+				(previous[j] ?? 0) + 1,
+				(current[j - 1] ?? 0) + 1,
+				(previous[j - 1] ?? 0) + substitution,
+			)
+		}
+		previous = current
+	}
+	return previous[b.length] ?? 0
+}
+
+/**
+ * A provider that failed to resolve during `resolveAll()` or `bootstrap()`
+ */
+export interface BootstrapFailure {
+	/** Name of the token that failed to resolve */
+	token: string
+	/** Resolution path from the token to where the error was thrown */
+	path: string[]
+	/** The original error */
+	cause: unknown
+}
+
+/**
+ * Error thrown by `resolveAll()` and `bootstrap()` in strict mode
+ *
+ * Collects every provider that failed to resolve. Like an `AggregateError`,
+ * the original errors are available in `errors`.
+ *
+ * @example
+ * try {
+ *   await container.bootstrap({ providers, strict: true })
+ * } catch (error) {
+ *   if (error instanceof BootstrapError) {
+ *     for (const { token, path, cause } of error.failures) {
+ *       console.error(token, path.join(' -> '), cause)
+ *     }
+ *   }
+ * }
+ */
+export class BootstrapError extends AggregateError {
+	/** The providers that failed, in resolution order */
+	readonly failures: BootstrapFailure[]
+
+	constructor(failures: BootstrapFailure[]) {
+		const lines = failures.map(
+			({ token, path, cause }) =>
+				`  - ${token}: ${cause instanceof Error ? cause.message : String(cause)}\n` +
+				`    Path: ${path.join(' -> ')}`,
+		)
+		super(
+			failures.map((failure) => failure.cause),
+			`Bootstrap failed, ${failures.length} provider(s) could not be resolved:\n` +
+				lines.join('\n'),
+		)
+		this.name = 'BootstrapError'
+		this.failures = failures
+	}
+}
+
+/**
+ * Thrown by `bootstrap()` when the dependency graph fails validation
+ *
+ * Nothing has been instantiated yet. The issues are the ones `validate()` reports.
+ */
+export class ValidationError extends ContainerError {
+	/** All issues found, in discovery order */
+	readonly issues: ValidationIssue[]
+
+	constructor(issues: ValidationIssue[]) {
+		const lines = issues.map(
+			(issue) => `  - ${issue.message}\n    Path: ${issue.path.join(' -> ')}`,
+		)
+		super(
+			`Container validation failed with ${issues.length} issue(s):\n` +
+				lines.join('\n'),
+		)
+		this.name = 'ValidationError'
+		this.issues = issues
+	}
+}
+
+// ============================================================================
+// Bootstrap and Validation
+// ============================================================================
+
+/**
+ * Options for `Container.resolveAll()`
+ */
+export interface ResolveAllOptions {
+	/**
+	 * Reject with a `BootstrapError` when any provider fails to resolve (default: false)
+	 * Instances created before the failure are destroyed in reverse order first.
+	 * Without strict mode, failures are only logged.
+	 */
+	strict?: boolean
+	/**
+	 * Record how long each provider takes to construct and initialize (default: false)
+	 * See `Container.getBootstrapReport()`.
+	 */
+	profile?: boolean
+}
+
+/**
+ * Options for `Container.bootstrap()`
+ */
+export interface BootstrapOptions extends ResolveAllOptions {
+	/** Providers and groups to register */
+	providers: ProviderOrGroup[]
+	/**
+	 * Validate the dependency graph before instantiating anything (default: true)
+	 * See `Container.validate()`.
+	 */
+	validate?: boolean
+}
+
+/**
+ * A problem found by `Container.validate()`
+ * - missing-provider: A dependency has no provider
+ * - undefined-parameter-type: A constructor parameter type is undefined (usually a circular import) or an injected field has no token
+ * - circular-dependency: Dependencies form a cycle without `@Lazy()`
+ * - group-access: A dependency is not exported by its group or its group is not imported
+ */
+export interface ValidationIssue {
+	/** Kind of problem */
+	type:
+		| 'missing-provider'
+		| 'undefined-parameter-type'
+		| 'circular-dependency'
+		| 'group-access'
+	/** Name of the missing token, the class with the undefined parameter, the first token of the cycle or the inaccessible dependency */
+	token: string
+	/** Dependency path from a registered provider to the problem */
+	path: string[]
+	/** Index of the undefined constructor parameter */
+	parameterIndex?: number
+	/** Name of the injected field without a token */
+	propertyKey?: string | symbol
+	/** Human-readable description */
+	message: string
+}
+
+/**
+ * Result of `Container.validate()`
+ */
+export interface ValidationResult {
+	/** True when no issues were found */
+	valid: boolean
+	/** All issues found, in discovery order */
+	issues: ValidationIssue[]
+}
+
+/**
+ * Timings of a provider recorded by a profiled `resolveAll()` or `bootstrap()`
+ *
+ * All durations are in milliseconds and exclude the time spent awaiting
+ * dependencies, which is reported separately in `dependencyTime`.
+ */
+export interface TokenProfile {
+	/** Name of the token */
+	token: string
+	/** Dependency weight of the token */
+	weight: number
+	/** Time spent in the constructor or factory */
+	construction: number
+	/** Time spent in the provider-level onInit hook */
+	providerInit: number
+	/** Time spent in the instance's onInit method */
+	instanceInit: number
+	/** Construction and onInit time of the token itself */
+	total: number
+	/** Time spent awaiting dependencies (including their own construction) */
+	dependencyTime: number
+	/** Names of the dependencies the token awaited, in order */
+	dependencies: string[]
+}
+
+/**
+ * Per-token timings of a profiled `resolveAll()` or `bootstrap()`
+ *
+ * @example
+ * await container.bootstrap({ providers: [AppModule], profile: true })
+ * const report = container.getBootstrapReport()
+ * console.log(report?.toTable())
+ */
+export class BootstrapReport {
+	/**
+	 * @param entries - Timings of every created provider, slowest first
+	 * @param duration - Duration of the whole resolution, in milliseconds
+	 */
+	constructor(
+		readonly entries: TokenProfile[],
+		readonly duration: number,
+	) {}
+
+	/**
+	 * Render the report as a text table, slowest provider first
+	 *
+	 * @returns The table, one provider per line
+	 */
+	toTable(): string {
+		const ms = (value: number) => `${value.toFixed(1)}ms`
+		const rows = [
+			[
+				'Token',
+				'Weight',
+				'Construction',
+				'Provider onInit',
+				'Instance onInit',
+				'Total',
+				'Dependencies',
+			],
+			...this.entries.map((entry) => [
+				entry.token,
+				String(entry.weight),
+				ms(entry.construction),
+				ms(entry.providerInit),
+				ms(entry.instanceInit),
+				ms(entry.total),
+				entry.dependencies.join(', '),
+			]),
+		]
+		const widths = rows[0]?.map((_, column) =>
+			Math.max(...rows.map((row) => row[column]?.length ?? 0)),
+		)
+		const lines = rows.map((row) =>
+			row
+				.map((cell, column) => cell.padEnd(widths?.[column] ?? 0))
+				.join('  ')
+				.trimEnd(),
+		)
+		lines.push(
+			`Resolved ${this.entries.length} provider(s) in ${ms(this.duration)}`,
+		)
+		return lines.join('\n')
+	}
+
+	/**
+	 * Get the report as plain data (used by `JSON.stringify()`)
+	 *
+	 * @returns The duration and entries of the report
+	 */
+	toJSON(): { duration: number; entries: TokenProfile[] } {
+		return { duration: this.duration, entries: this.entries }
+	}
+}
+
+// ============================================================================
+// Container Events
+// ============================================================================
+
+/**
+ * Kind of provider registered for a token
+ *
+ * Plain classes and `useClass` providers are both `class`, `useExisting` aliases are `alias`.
+ */
+export type ProviderKind = 'class' | 'value' | 'factory' | 'alias'
+
+/**
+ * Payload of every container event
+ */
+export interface ContainerEventBase {
+	/** The token the event is about */
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	token: InjectionToken | Constructor<any>
+	/** Name of the token */
+	tokenName: string
+}
+
+/**
+ * Payload of the `registered` event
+ */
+export interface RegisteredEvent extends ContainerEventBase {
+	/** Kind of the registered provider */
+	kind: ProviderKind
+	/** True for a multi provider contribution */
+	multi: boolean
+}
+
+/**
+ * Payload of the `resolving` event
+ */
+export interface ResolvingEvent extends ContainerEventBase {
+	/** Kind of the provider (`class` for unregistered classes) */
+	kind: ProviderKind
+	/** Scope of the provider */
+	scope: ProviderScope
+	/** Dependency weight of the token */
+	weight: number
+}
+
+/**
+ * Payload of the `resolved` event
+ */
+export interface ResolvedEvent extends ResolvingEvent {
+	/** Time spent creating the instance, including its dependencies, in milliseconds */
+	duration: number
+}
+
+/**
+ * Payload of the `initFailed` event
+ */
+export interface InitFailedEvent extends ContainerEventBase {
+	/** The error of the failing onInit hook */
+	error: LifecycleHookError
+}
+
+/**
+ * Payload of the `destroyed` event
+ */
+export interface DestroyedEvent extends ContainerEventBase {
+	/** Time spent in the onDestroy hooks, in milliseconds */
+	duration: number
+	/** The error of a failing onDestroy hook, if any */
+	error?: LifecycleHookError
+}
+
+/**
+ * Events emitted by a container, and their payloads
+ *
+ * - `registered` - A provider was registered with `register()` or `bootstrap()`
+ * - `resolving` - The container starts creating an instance (cached instances emit nothing)
+ * - `resolved` - The instance was created and initialized
+ * - `initFailed` - An onInit hook threw
+ * - `destroying` - A cached instance is about to be destroyed (by `destroy()` or a strict rollback)
+ * - `destroyed` - The onDestroy hooks of an instance have run
+ */
+export interface ContainerEvents {
+	registered: RegisteredEvent
+	resolving: ResolvingEvent
+	resolved: ResolvedEvent
+	initFailed: InitFailedEvent
+	destroying: ContainerEventBase
+	destroyed: DestroyedEvent
+}
+
+/**
+ * Listener of a container event
+ *
+ * @template E - The event name
+ */
+export type ContainerEventListener<E extends keyof ContainerEvents> = (
+	payload: ContainerEvents[E],
+) => void
+
+// ============================================================================
+// Graph Export
+// ============================================================================
+
+/**
+ * Output format of `Container.exportGraph()`
+ * - mermaid: A Mermaid flowchart (renders in GitHub Markdown)
+ * - dot: A Graphviz DOT digraph
+ * - json: The `GraphExport` data as JSON
+ */
+export type GraphFormat = 'mermaid' | 'dot' | 'json'
+
+/**
+ * Options for `Container.exportGraph()`
+ */
+export interface ExportGraphOptions {
+	/** Output format (default: 'mermaid') */
+	format?: GraphFormat
+}
+
+/**
+ * A token in an exported dependency graph
+ */
+export interface GraphNode {
+	/** Unique id of the node (tokens with the same name get different ids) */
+	id: string
+	/** Name of the token */
+	token: string
+	/** Kind of provider (`class` for unregistered classes) */
+	kind: ProviderKind
+	/** Scope of the provider */
+	scope: ProviderScope
+	/** Name of the group the provider was registered from */
+	group?: string
+	/** True for multi provider tokens */
+	multi: boolean
+	/** True when the token has no provider */
+	missing: boolean
+	/** True when the token is part of a circular dependency */
+	cycle: boolean
+}
+
+/**
+ * A dependency in an exported dependency graph
+ */
+export interface GraphEdge {
+	/** Id of the dependent node */
+	from: string
+	/** Id of the dependency node */
+	to: string
+	/** True for dependencies injected with `@Lazy()` or `lazy()` */
+	lazy: boolean
+	/** True when the edge is part of a circular dependency */
+	cycle: boolean
+}
+
+/**
+ * Dependency graph exported by `Container.exportGraph({ format: 'json' })`
+ */
+export interface GraphExport {
+	/** Registered tokens and the tokens they depend on */
+	nodes: GraphNode[]
+	/** Dependencies between the nodes */
+	edges: GraphEdge[]
+	/** Circular dependencies (not broken by lazy injection), as lists of token names */
+	cycles: string[][]
+}
+
+/**
+ * Describe a graph node for diagram labels
+ *
+ * @param node - The graph node
+ * @returns The kind, scope and flags of the node, e.g. "factory, singleton, multi"
+ */
+function describeGraphNode(node: GraphNode): string {
+	const details: string[] = [node.kind, node.scope]
+	if (node.multi) details.push('multi')
+	if (node.missing) details.push('missing')
+	return details.join(', ')
+}
+
+/**
+ * Split graph nodes into ungrouped nodes and nodes by group name
+ *
+ * @param nodes - The graph nodes
+ * @returns The ungrouped nodes and the nodes of each group
+ */
+function groupGraphNodes(nodes: GraphNode[]): {
+	ungrouped: GraphNode[]
+	groups: Map<string, GraphNode[]>
+} {
+	const ungrouped: GraphNode[] = []
+	const groups = new Map<string, GraphNode[]>()
+	for (const node of nodes) {
+		if (node.group) {
+			groups.set(node.group, [...(groups.get(node.group) ?? []), node])
+		} else {
+			ungrouped.push(node)
+		}
+	}
+	return { ungrouped, groups }
+}
+
+/**
+ * Render an exported graph as a Mermaid flowchart
+ *
+ * Lazy edges are dashed, nodes and edges of cycles are drawn in red and
+ * grouped providers are placed in a subgraph per group.
+ *
+ * @param graph - The exported graph
+ * @returns The Mermaid source
+ */
+function renderMermaidGraph(graph: GraphExport): string {
+	const escapeLabel = (value: string) => value.replace(/"/g, '#quot;')
+	const label = (node: GraphNode) =>
+		`${node.id}["${escapeLabel(node.token)}<br/><small>${describeGraphNode(node)}</small>"]`
+
+	const { ungrouped, groups } = groupGraphNodes(graph.nodes)
+	const lines = ['flowchart TD']
+	for (const node of ungrouped) {
+		lines.push(`  ${label(node)}`)
+	}
+	let groupIndex = 0
+	for (const [group, nodes] of groups) {
+		lines.push(`  subgraph group${groupIndex++}["${escapeLabel(group)}"]`)
+		for (const node of nodes) {
+			lines.push(`    ${label(node)}`)
+		}
+		lines.push('  end')
+	}
+
+	for (const edge of graph.edges) {
+		lines.push(`  ${edge.from} ${edge.lazy ? '-.->' : '-->'} ${edge.to}`)
+	}
+
+	const cycleNodes = graph.nodes.filter((node) => node.cycle)
+	if (cycleNodes.length > 0) {
+		lines.push('  classDef cycle stroke:#d33,stroke-width:2px')
+		lines.push(`  class ${cycleNodes.map((node) => node.id).join(',')} cycle`)
+	}
+	// Mermaid styles edges by their index
+	const cycleEdges = graph.edges.flatMap((edge, index) =>
+		edge.cycle ? [index] : [],
+	)
+	if (cycleEdges.length > 0) {
+		lines.push(
+			`  linkStyle ${cycleEdges.join(',')} stroke:#d33,stroke-width:2px`,
+		)
+	}
+	return lines.join('\n')
+}
+
+/**
+ * Render an exported graph as a Graphviz DOT digraph
+ *
+ * Lazy edges are dashed, nodes and edges of cycles are drawn in red and
+ * grouped providers are placed in a cluster per group.
+ *
+ * @param graph - The exported graph
+ * @returns The DOT source
+ */
+function renderDotGraph(graph: GraphExport): string {
+	const escapeLabel = (value: string) => value.replace(/["\\]/g, '\\$&')
+	const statement = (node: GraphNode) => {
+		const attributes = [
+			`label="${escapeLabel(node.token)}\\n${describeGraphNode(node)}"`,
+		]
+		if (node.missing) attributes.push('style=dashed')
+		if (node.cycle) attributes.push('color=red')
+		return `${node.id} [${attributes.join(', ')}];`
+	}
+
+	const { ungrouped, groups } = groupGraphNodes(graph.nodes)
+	const lines = ['digraph Dependencies {', '  node [shape=box];']
+	for (const node of ungrouped) {
+		lines.push(`  ${statement(node)}`)
+	}
+	let groupIndex = 0
+	for (const [group, nodes] of groups) {
+		lines.push(`  subgraph cluster_${groupIndex++} {`)
+		lines.push(`    label="${escapeLabel(group)}";`)
+		for (const node of nodes) {
+			lines.push(`    ${statement(node)}`)
+		}
+		lines.push('  }')
+	}
+
+	for (const edge of graph.edges) {
+		const attributes: string[] = []
+		if (edge.lazy) attributes.push('style=dashed')
+		if (edge.cycle) attributes.push('color=red')
+		const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''
+		lines.push(`  ${edge.from} -> ${edge.to}${suffix};`)
+	}
+	lines.push('}')
+	return lines.join('\n')
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+/**
+ * Registrations and instances of a container, captured by `Container.snapshot()`
+ *
+ * The maps are copies: registering, resolving or clearing afterwards does not
+ * change the snapshot. Instances themselves are shared, not cloned.
+ */
+export interface ContainerSnapshot {
+	/** Registered providers, by token */
+	readonly providers: ReadonlyMap<
+		InjectionToken | Constructor<unknown>,
+		Provider<unknown>
+	>
+	/** Cached instances, by token */
+	readonly instances: ReadonlyMap<
+		InjectionToken | Constructor<unknown>,
+		unknown
+	>
+	/** Provider-level onDestroy hooks, by token */
+	readonly providerMetadata: ReadonlyMap<
+		InjectionToken | Constructor<unknown>,
+		{
+			provider: Provider<unknown>
+			onDestroy?: (instance: unknown) => Promise<void> | void
+		}
+	>
+	/** Cached dependency weights, by token */
+	readonly weightCache: ReadonlyMap<
+		InjectionToken | Constructor<unknown>,
+		number
+	>
+	/** Contributions of multi providers, by token */
+	readonly multiProviders: ReadonlyMap<
+		InjectionToken | Constructor<unknown>,
+		readonly Provider<unknown>[]
+	>
+	/** Group each provider was registered from, by token */
+	readonly groupMembership: ReadonlyMap<
+		InjectionToken | Constructor<unknown>,
+		Constructor<unknown>
+	>
+	/** Configuration of dynamic groups, by group */
+	readonly dynamicGroups: ReadonlyMap<Constructor<unknown>, DynamicGroup>
+	/** Mocks generated for dependencies without a provider, by token */
+	readonly mocks: ReadonlyMap<InjectionToken | Constructor<unknown>, unknown>
+}
+
+/**
+ * Options for `Container.restore()`
+ */
+export interface RestoreOptions {
+	/**
+	 * Call the onDestroy hooks of instances created after the snapshot (default: false)
+	 * Instances that are part of the snapshot are never destroyed.
+	 */
+	destroy?: boolean
+}
+
+// ============================================================================
+// Container with Injection Tokens
+// ============================================================================
+
+/**
+ * Private Container members used by other parts of this module
+ *
+ * Filled in by the static block of `Container`, so they stay out of its public API.
+ */
+interface ContainerInternals {
+	/** Replace the providers of tokens and the definitions of groups (used by `Test.createContainer()`) */
+	applyOverrides(
+		container: Container,
+		providers: Provider<unknown>[],
+		groups: Map<Constructor<unknown>, GroupOptions>,
+	): void
+	/** Mock the dependencies without a provider when bootstrapping (used by the `autoMock` test option) */
+	enableAutoMock(container: Container, factory?: MockFactory): void
+	/** Remove the cached instance of a token without calling onDestroy (used by `LazyRef.reset()`) */
+	clearInstance(
+		container: Container,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): boolean
+	/** Get the direct dependencies of a token, lazy ones included (used by the graph assertion helpers) */
+	getDependencyTargets(
+		container: Container,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	): { token: InjectionToken | Constructor<any>; lazy: boolean }[]
+	/** Get a human-readable name for a token (used by the graph assertion helpers) */
+	getTokenName(
+		container: Container,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): string
+}
+
+const containerInternals = {} as ContainerInternals
+
+/**
+ * Dependency Injection Container
+ *
+ * The Container manages dependency registration, resolution, and lifecycle.
+ * It supports multiple provider types (class, value, factory), automatic dependency
+ * resolution, circular dependency detection, lazy injection, and more.
+ *
+ * The global container is a singleton - use `Container.createOrGet()` to access it.
+ * Use `Container.create()` for an isolated container and `createChild()` for
+ * a nested container that inherits its parent's providers.
+ *
+ * @example
+ * // Get the container instance
+ * const container = Container.createOrGet()
+ *
+ * @example
+ * // Register and resolve services
+ * container.register(MyService)
+ * const instance = await container.resolve(MyService)
+ *
+ * @example
+ * // Bootstrap with multiple providers
+ * await container.bootstrap([
+ *   ServiceA,
+ *   ServiceB,
+ *   { provide: 'CONFIG', useValue: config }
+ * ])
+ */
+export class Container {
+	private static instance: Container
+
+	static {
+		containerInternals.applyOverrides = (container, providers, groups) =>
+			container.applyOverrides(providers, groups)
+		containerInternals.enableAutoMock = (container, factory) =>
+			container.enableAutoMock(factory)
+		containerInternals.clearInstance = (container, token) =>
+			container.clearInstance(token)
+		containerInternals.getDependencyTargets = (container, token) =>
+			container.getDependencyTargets(token)
+		containerInternals.getTokenName = (container, token) =>
+			container.getTokenName(token)
+	}
+
+	// Store providers by token
+	private readonly providers = new Map<
+		InjectionToken | Constructor<unknown>,
+		Provider<unknown>
+	>()
+
+	// Cache instantiated services
+	private readonly instances = new Map<
+		InjectionToken | Constructor<unknown>,
+		unknown
+	>()
+
+	// Resolution chain of the call that first threw an error (for BootstrapError paths)
+	private readonly failurePaths = new WeakMap<
+		object,
+		(InjectionToken | Constructor<unknown>)[]
+	>()
+
+	// In-flight singleton resolutions, shared by concurrent callers
+	private readonly pendingResolutions = new Map<
+		InjectionToken | Constructor<unknown>,
+		Promise<unknown>
+	>()
+
+	// Cache for dependency weights
+	private readonly weightCache = new Map<
+		InjectionToken | Constructor<unknown>,
+		number
+	>()
+
+	// Contributions of multi providers, in registration order
+	private readonly multiProviders = new Map<
+		InjectionToken | Constructor<unknown>,
+		Provider<unknown>[]
+	>()
+
+	// Track provider metadata for lifecycle hooks
+	private readonly providerMetadata = new Map<
+		InjectionToken | Constructor<unknown>,
+		{
+			provider: Provider<unknown>
+			onDestroy?: (instance: unknown) => Promise<void> | void
+		}
+	>()
+
+	// Track the group each provider was registered from (for encapsulation)
+	private readonly groupMembership = new Map<
+		InjectionToken | Constructor<unknown>,
+		Constructor<unknown>
+	>()
+
+	// Configuration of dynamic groups registered through bootstrap()
+	private readonly dynamicGroups = new Map<Constructor<unknown>, DynamicGroup>()
+
+	// Providers that replace the registration of their token (set by Test.createContainer())
+	private readonly providerOverrides = new Map<
+		InjectionToken | Constructor<unknown>,
+		Provider<unknown>
+	>()
+
+	// Definitions that replace the options of a group (set by Test.createContainer())
+	private readonly groupOverrides = new Map<
+		Constructor<unknown>,
+		GroupOptions
+	>()
+
+	// Creates mocks for dependencies without a provider (set by Test.createContainer())
+	private mockFactory?: MockFactory
+
+	// Mocks registered for dependencies without a provider
+	private readonly mocks = new Map<
+		InjectionToken | Constructor<unknown>,
+		unknown
+	>()
+
+	// Active request scope, propagated through async calls (shared with children)
+	private readonly scopeStorage: AsyncLocalStorage<RequestScope>
+
+	// Tokens being resolved by the current call, for circular dependency detection (shared with children)
+	private readonly chainStorage: AsyncLocalStorage<
+		(InjectionToken | Constructor<unknown>)[]
+	>
+
+	// Interceptors registered with intercept(), in registration order
+	private readonly interceptors: {
+		matches: InterceptorPredicate
+		interceptor: Interceptor
+	}[] = []
+
+	// Listeners registered with on(), by event
+	private readonly listeners = new Map<
+		keyof ContainerEvents,
+		// biome-ignore lint/suspicious/noExplicitAny: Payload type depends on the event
+		Set<ContainerEventListener<any>>
+	>()
+
+	// Timings recorded by a profiled resolveAll(), by token (undefined when not profiling)
+	private profiles?: Map<InjectionToken | Constructor<unknown>, TokenProfile>
+
+	// Report of the last profiled resolveAll() or bootstrap()
+	private bootstrapReport?: BootstrapReport
+
+	// Logging configuration
+	private logLevel: LogLevel = LogLevel.VERBOSE
+	private logger: ContainerLogger = new ConsoleLogger()
+
+	private constructor(private readonly parent?: Container) {
+		this.scopeStorage = parent?.scopeStorage ?? new AsyncLocalStorage()
+		this.chainStorage = parent?.chainStorage ?? new AsyncLocalStorage()
+		if (parent) {
+			this.logLevel = parent.logLevel
+			this.logger = parent.logger
+		}
+	}
+
+	/**
+	 * Get or create the singleton container instance
+	 *
+	 * @returns The singleton container instance
+	 *
+	 * @example
+	 * const container = Container.createOrGet()
+	 */
+	public static createOrGet(): Container {
+		if (!Container.instance) {
+			Container.instance = new Container()
+		}
+		return Container.instance
+	}
+
+	/**
+	 * Create a new, isolated container
+	 *
+	 * The container is independent of the global `createOrGet()` singleton,
+	 * which makes it suitable for tests running in parallel.
+	 *
+	 * @returns A new root container
+	 *
+	 * @example
+	 * const container = Container.create()
+	 */
+	public static create(): Container {
+		return new Container()
+	}
+
+	/**
+	 * Create a child container
+	 *
+	 * The child inherits all providers of this container (and its ancestors).
+	 * Providers registered on the child shadow inherited tokens, and tokens
+	 * the child does not provide are resolved upward by the container that
+	 * registered them. Request scopes, the log level and the logger are shared with the parent.
+	 *
+	 * @returns A new child container
+	 *
+	 * @example
+	 * const tenant = container.createChild()
+	 * tenant.register({ provide: 'TENANT_ID', useValue: 'acme' })
+	 * const service = await tenant.resolve(TenantService)
+	 * // ...
+	 * await tenant.destroy() // Only tears down the child's own instances
+	 */
+	public createChild(): Container {
+		return new Container(this)
+	}
+
+	/**
+	 * Get the parent container
+	 *
+	 * @returns The parent container or undefined for a root container
+	 */
+	public getParent(): Container | undefined {
+		return this.parent
+	}
+
+	/**
+	 * Check if a provider is registered for a token
+	 *
+	 * Looks up this container and its ancestors.
+	 *
+	 * @param token - The injection token or class constructor
+	 * @returns True if a provider is registered for the token
+	 *
+	 * @example
+	 * if (!container.hasProvider('CONFIG')) {
+	 *   container.register({ provide: 'CONFIG', useValue: defaults })
+	 * }
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	public hasProvider(token: InjectionToken | Constructor<any>): boolean {
+		if (token instanceof Token && token.factory) {
+			// Provided by the root container on first resolution
+			return true
+		}
+		return this.getProvider(token) !== undefined
+	}
+
+	/**
+	 * Get or create the singleton container instance
+	 *
+	 * @deprecated Use createOrGet() instead
+	 * @returns The singleton container instance
+	 */
+	public static getContainer(): Container {
+		return Container.createOrGet()
+	}
+
+	/**
+	 * Clear all providers and instances
+	 *
+	 * Removes all registered providers and cached instances.
+	 * Useful for testing or resetting the container state.
+	 * The parent of a child container is left untouched.
+	 *
+	 * @example
+	 * container.clear()
+	 */
+	public clear(): void {
+		this.providers.clear()
+		this.instances.clear()
+		this.pendingResolutions.clear()
+		this.weightCache.clear()
+		this.providerMetadata.clear()
+		this.multiProviders.clear()
+		this.groupMembership.clear()
+		this.dynamicGroups.clear()
+		this.bootstrapReport = undefined
+		this.mocks.clear()
+	}
+
+	/**
+	 * Capture the registrations and instances of the container
+	 *
+	 * Pass the snapshot to `restore()` to return the container to this state,
+	 * e.g. to bootstrap an expensive graph once and undo the registrations
+	 * made by each test. Only the container's own state is captured, never
+	 * the state of its parent.
+	 *
+	 * @returns The captured state
+	 * @throws {ContainerError} If a resolution is in progress
+	 *
+	 * @example
+	 * await container.bootstrap([AppModule])
+	 * const snapshot = container.snapshot()
+	 *
+	 * container.register({ provide: MailService, useClass: FakeMailService })
+	 * // ...
+	 * await container.restore(snapshot)
+	 */
+	public snapshot(): ContainerSnapshot {
+		this.assertNotResolving('take a snapshot')
+
+		return {
+			providers: new Map(this.providers),
+			instances: new Map(this.instances),
+			providerMetadata: new Map(this.providerMetadata),
+			weightCache: new Map(this.weightCache),
+			multiProviders: new Map(
+				Array.from(this.multiProviders, ([token, contributions]) => [
+					token,
+					[...contributions],
+				]),
+			),
+			groupMembership: new Map(this.groupMembership),
+			dynamicGroups: new Map(this.dynamicGroups),
+			mocks: new Map(this.mocks),
+		}
+	}
+
+	/**
+	 * Ensure no singleton resolution is in flight
+	 *
+	 * @private
+	 * @param action - What cannot be done while resolving (for the error message)
+	 * @throws {ContainerError} If a resolution is in progress
+	 */
+	private assertNotResolving(action: string): void {
+		if (this.pendingResolutions.size > 0) {
+			throw new ContainerError(
+				`Cannot ${action} while resolving: ${Array.from(
+					this.pendingResolutions.keys(),
+					(token) => this.getTokenName(token),
+				).join(', ')}`,
+			)
+		}
+	}
+
+	/**
+	 * Return the container to the state captured by `snapshot()`
+	 *
+	 * Providers registered and instances created after the snapshot are
+	 * discarded, and replaced or removed registrations come back along with
+	 * their instances. A snapshot can be restored any number of times.
+	 *
+	 * @param snapshot - State captured by `snapshot()`
+	 * @param options - Whether to destroy instances created after the snapshot
+	 * @returns A promise that resolves when the state is restored
+	 * @throws {ContainerError} If a resolution is in progress
+	 *
+	 * @example
+	 * afterEach(() => container.restore(snapshot, { destroy: true }))
+	 */
+	public async restore(
+		snapshot: ContainerSnapshot,
+		options: RestoreOptions = {},
+	): Promise<void> {
+		// A resolution settling later would write into the restored state
+		this.assertNotResolving('restore a snapshot')
+		this.log('Restoring container snapshot', LogLevel.VERBOSE, {
+			event: 'restore',
+		})
+
+		if (options.destroy) {
+			// Call onDestroy hooks in reverse order of instantiation
+			const tokens = Array.from(this.instances.keys())
+				.filter(
+					(token) =>
+						snapshot.instances.get(token) !== this.instances.get(token),
+				)
+				.reverse()
+
+			for (const token of tokens) {
+				await this.destroyToken(token)
+			}
+		}
+
+		const bootstrapReport = this.bootstrapReport
+		this.clear()
+		this.bootstrapReport = bootstrapReport
+		for (const [token, provider] of snapshot.providers) {
+			this.providers.set(token, provider)
+		}
+		for (const [token, instance] of snapshot.instances) {
+			this.instances.set(token, instance)
+		}
+		for (const [token, metadata] of snapshot.providerMetadata) {
+			this.providerMetadata.set(token, metadata)
+		}
+		for (const [token, weight] of snapshot.weightCache) {
+			this.weightCache.set(token, weight)
+		}
+		for (const [token, contributions] of snapshot.multiProviders) {
+			this.multiProviders.set(token, [...contributions])
+		}
+		for (const [token, group] of snapshot.groupMembership) {
+			this.groupMembership.set(token, group)
+		}
+		for (const [group, dynamicGroup] of snapshot.dynamicGroups) {
+			this.dynamicGroups.set(group, dynamicGroup)
+		}
+		for (const [token, mock] of snapshot.mocks) {
+			this.mocks.set(token, mock)
+		}
+	}
+
+	/**
+	 * Replace the providers of tokens and the definitions of groups
+	 *
+	 * The override providers are registered right away. Registering another
+	 * provider for an overridden token afterwards keeps the override, and
+	 * overridden groups use the given options instead of their `@Group()` metadata.
+	 *
+	 * @private
+	 * @param providers - Providers replacing the registrations of their tokens
+	 * @param groups - Options replacing the definitions of groups
+	 */
+	private applyOverrides(
+		providers: Provider<unknown>[],
+		groups: Map<Constructor<unknown>, GroupOptions>,
+	): void {
+		for (const [group, options] of groups) {
+			this.groupOverrides.set(group, options)
+		}
+		for (const provider of providers) {
+			this.providerOverrides.set(this.getProviderKey(provider), provider)
+			this.register(provider)
+		}
+	}
+
+	/**
+	 * Mock the dependencies without a provider when bootstrapping
+	 *
+	 * @private
+	 * @param factory - Creates the mock of a token (returns undefined for a generated mock)
+	 */
+	private enableAutoMock(factory?: MockFactory): void {
+		this.mockFactory = (token) => factory?.(token) ?? createMock(token)
+	}
+
+	/**
+	 * Get the mock generated for a dependency without a provider
+	 *
+	 * Mocks are generated by test containers created with the `autoMock`
+	 * option. Methods of a class are replaced by mock functions returning
+	 * `undefined`, which record their calls and can be given an implementation.
+	 *
+	 * @template T - The type of the mocked token
+	 * @param token - The mocked token
+	 * @returns The mock injected for the token
+	 * @throws {ContainerError} If no mock was generated for the token
+	 *
+	 * @example
+	 * const container = await Test.createContainer({
+	 *   providers: [UserService],
+	 *   autoMock: true,
+	 * }).compile()
+	 *
+	 * const repository = container.getMock(UserRepository)
+	 * repository.findById.mockReturnValue({ id: 1, name: 'Ada' })
+	 *
+	 * await container.getInstanceOrThrow(UserService).rename(1, 'Grace')
+	 * expect(repository.save.calls).toEqual([[{ id: 1, name: 'Grace' }]])
+	 */
+	public getMock<T>(token: InjectionToken<T> | Constructor<T>): Mocked<T> {
+		if (this.mocks.has(token)) {
+			return this.mocks.get(token) as Mocked<T>
+		}
+		if (this.parent) {
+			return this.parent.getMock(token)
+		}
+		throw new ContainerError(
+			`No mock for token: ${this.getTokenName(token)}. ` +
+				`Mocks are only generated for dependencies without a provider when autoMock is enabled.`,
+		)
+	}
+
+	/**
+	 * Register mocks for all dependencies without a provider
+	 *
+	 * Follows constructor parameters, injected fields (including lazy ones)
+	 * and factory deps of every registered token.
+	 *
+	 * @private
+	 */
+	private registerMocks(): void {
+		const mockFactory = this.mockFactory
+		if (!mockFactory) {
+			return
+		}
+
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const visited = new Set<InjectionToken | Constructor<any>>()
+		const queue = Array.from(this.providers.keys())
+		for (
+			let token = queue.shift();
+			token !== undefined;
+			token = queue.shift()
+		) {
+			if (visited.has(token)) continue
+			visited.add(token)
+
+			if (!this.hasProvider(token)) {
+				const mock = mockFactory(token)
+				this.log(`Mocking: ${this.getTokenName(token)}`)
+				this.register({ provide: token, useValue: mock })
+				this.mocks.set(token, mock)
+				continue
+			}
+
+			const providers =
+				this.getContributions(token) ??
+				[this.getProvider(token)].filter((provider) => provider !== undefined)
+			queue.push(
+				...this.getTokenDependencies(token),
+				...providers.flatMap((provider) => this.getLazyDependencies(provider)),
+			)
+		}
+	}
+
+	/**
+	 * Set the logging level for the container
+	 *
+	 * Controls how much information the container logs during operation.
+	 *
+	 * @param level - The desired log level
+	 *
+	 * @example
+	 * // Disable all logging
+	 * container.setLogLevel(LogLevel.OFF)
+	 *
+	 * @example
+	 * // Only log important events
+	 * container.setLogLevel(LogLevel.MINIMAL)
+	 *
+	 * @example
+	 * // Log all details (default)
+	 * container.setLogLevel(LogLevel.VERBOSE)
+	 */
+	public setLogLevel(level: LogLevel): void {
+		this.logLevel = level
+	}
+
+	/**
+	 * Get the current logging level
+	 *
+	 * @returns The current log level
+	 *
+	 * @example
+	 * const level = container.getLogLevel()
+	 */
+	public getLogLevel(): LogLevel {
+		return this.logLevel
+	}
+
+	/**
+	 * Set the logger the container writes to
+	 *
+	 * The log level still decides what is logged. Child containers created
+	 * afterwards use the same logger.
+	 *
+	 * @param logger - The logger to use
+	 *
+	 * @example
+	 * // One JSON object per line, for log collectors
+	 * container.setLogger(new JsonLinesLogger())
+	 *
+	 * @example
+	 * // Back to the default console output
+	 * container.setLogger(new ConsoleLogger())
+	 */
+	public setLogger(logger: ContainerLogger): void {
+		this.logger = logger
+	}
+
+	/**
+	 * Get the current logger
+	 *
+	 * @returns The logger the container writes to
+	 */
+	public getLogger(): ContainerLogger {
+		return this.logger
+	}
+
+	/**
+	 * Intercept the method calls of resolved instances of a token
+	 *
+	 * The interceptor applies to the instances of the token created by this
+	 * container or its children from now on. It runs before the interceptors
+	 * declared with `@UseInterceptors()`. Unregistered classes built on demand
+	 * are intercepted too, value providers never are.
+	 * Use `interceptWhere()` to select tokens with a predicate.
+	 *
+	 * @param token - The token to intercept
+	 * @param interceptor - Called around every method call
+	 * @returns A function that removes the interceptor for instances created afterwards
+	 *
+	 * @example
+	 * container.intercept(UserRepository, cache)
+	 */
+	public intercept(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		interceptor: Interceptor,
+	): () => void {
+		return this.interceptWhere((candidate) => candidate === token, interceptor)
+	}
+
+	/**
+	 * Intercept the method calls of resolved instances of every token a predicate accepts
+	 *
+	 * Same as `intercept()`, for the tokens selected by the predicate.
+	 *
+	 * @param predicate - Called with each token being instantiated
+	 * @param interceptor - Called around every method call
+	 * @returns A function that removes the interceptor for instances created afterwards
+	 *
+	 * @example
+	 * // Log every call of every service
+	 * container.interceptWhere(
+	 *   (token) => typeof token === 'function' && token.name.endsWith('Service'),
+	 *   ({ token, method }, next) => {
+	 *     console.log(`${String(token)}.${String(method)}()`)
+	 *     return next()
+	 *   },
+	 * )
+	 */
+	public interceptWhere(
+		predicate: InterceptorPredicate,
+		interceptor: Interceptor,
+	): () => void {
+		const entry = { matches: predicate, interceptor }
+		this.interceptors.push(entry)
+		return () => {
+			const index = this.interceptors.indexOf(entry)
+			if (index !== -1) this.interceptors.splice(index, 1)
+		}
+	}
+
+	/**
+	 * Get the interceptors registered for a token, those of ancestors first
+	 *
+	 * @private
+	 * @param token - The token being resolved
+	 * @returns The matching interceptors
+	 */
+	private getInterceptors(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): Interceptor[] {
+		return [
+			...(this.parent?.getInterceptors(token) ?? []),
+			...this.interceptors
+				.filter((entry) => entry.matches(token))
+				.map((entry) => entry.interceptor),
+		]
+	}
+
+	/**
+	 * Wrap an instance in a proxy that runs interceptors around its methods
+	 *
+	 * Methods run with the original instance as `this`, so calls between
+	 * methods of the same instance are not intercepted again.
+	 *
+	 * @private
+	 * @param token - The token the instance was created for
+	 * @param instance - The new instance
+	 * @returns The proxy, or the instance itself when nothing intercepts it
+	 */
+	private applyInterceptors(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		instance: unknown,
+	): unknown {
+		if (
+			instance === null ||
+			(typeof instance !== 'object' && typeof instance !== 'function')
+		) {
+			return instance
+		}
+		const shared = this.getInterceptors(token)
+		const declared = getInterceptorMetadata(instance.constructor)
+		if (
+			shared.length === 0 &&
+			declared.all.length === 0 &&
+			declared.methods.size === 0
+		) {
+			return instance
+		}
+
+		this.log(`  -> Intercepting: ${this.getTokenName(token)}`)
+		const wrappers = new Map<
+			string | symbol,
+			{ method: unknown; wrapper: unknown }
+		>()
+		return new Proxy(instance, {
+			get: (target, property) => {
+				const method = Reflect.get(target, property, target)
+				const descriptor = Reflect.getOwnPropertyDescriptor(target, property)
+				if (
+					typeof method !== 'function' ||
+					property === 'constructor' ||
+					method === Reflect.get(Object.prototype, property) ||
+					(descriptor && !descriptor.configurable && !descriptor.writable)
+				) {
+					return method
+				}
+				const cached = wrappers.get(property)
+				if (cached && cached.method === method) {
+					return cached.wrapper
+				}
+				// Lifecycle hooks are not intercepted, but still run on the instance itself
+				const interceptors =
+					property === 'onInit' || property === 'onDestroy'
+						? []
+						: [
+								...shared,
+								...declared.all,
+								...(declared.methods.get(property) ?? []),
+							]
+				if (interceptors.length === 0) {
+					// Bound so that #private fields work in methods without interceptors
+					const bound = method.bind(target)
+					wrappers.set(property, { method, wrapper: bound })
+					return bound
+				}
+
+				const wrapper = (...args: unknown[]) => {
+					const context: InvocationContext = {
+						instance: target,
+						method: property,
+						args,
+						token,
+					}
+					const call = (index: number): unknown => {
+						const interceptor = interceptors[index]
+						return interceptor
+							? interceptor(context, () => call(index + 1))
+							: method.apply(target, context.args)
+					}
+					return call(0)
+				}
+				wrappers.set(property, { method, wrapper })
+				return wrapper
+			},
+			// Setters run on the instance itself too
+			set: (target, property, value) =>
+				Reflect.set(target, property, value, target),
+		})
+	}
+
+	/**
+	 * Listen to a container event
+	 *
+	 * Listeners are called synchronously. A throwing listener is logged and
+	 * does not affect the container. Events of child containers are emitted on
+	 * the child, not on its parent.
+	 *
+	 * @template E - The event name
+	 * @param event - The event to listen to
+	 * @param listener - Called with the event payload
+	 * @returns A function that removes the listener
+	 *
+	 * @example
+	 * // Startup metrics
+	 * container.on('resolved', ({ tokenName, duration }) => {
+	 *   metrics.timing('di.resolve', duration, { token: tokenName })
+	 * })
+	 *
+	 * @example
+	 * const stop = container.on('initFailed', ({ tokenName, error }) => {
+	 *   tracer.recordException(error)
+	 * })
+	 * stop()
+	 */
+	public on<E extends keyof ContainerEvents>(
+		event: E,
+		listener: ContainerEventListener<E>,
+	): () => void {
+		let listeners = this.listeners.get(event)
+		if (!listeners) {
+			listeners = new Set()
+			this.listeners.set(event, listeners)
+		}
+		listeners.add(listener)
+		return () => this.off(event, listener)
+	}
+
+	/**
+	 * Remove a listener added with `on()`
+	 *
+	 * @template E - The event name
+	 * @param event - The event the listener was added to
+	 * @param listener - The listener to remove
+	 */
+	public off<E extends keyof ContainerEvents>(
+		event: E,
+		listener: ContainerEventListener<E>,
+	): void {
+		this.listeners.get(event)?.delete(listener)
+	}
+
+	/**
+	 * Check if an event has listeners
+	 *
+	 * @private
+	 * @param event - The event name
+	 * @returns True if at least one listener is registered
+	 */
+	private hasListeners(event: keyof ContainerEvents): boolean {
+		return (this.listeners.get(event)?.size ?? 0) > 0
+	}
+
+	/**
+	 * Call the listeners of an event
+	 *
+	 * @private
+	 * @template E - The event name
+	 * @param event - The event name
+	 * @param payload - The event payload
+	 */
+	private emit<E extends keyof ContainerEvents>(
+		event: E,
+		payload: ContainerEvents[E],
+	): void {
+		for (const listener of this.listeners.get(event) ?? []) {
+			try {
+				listener(payload)
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error)
+				this.logError(`  ✗ ${event} listener failed: ${message}`, {
+					event: 'listenerFailed',
+					token: payload.tokenName,
+					error,
+				})
+			}
+		}
+	}
+
+	/**
+	 * Get the kind of a provider
+	 *
+	 * @private
+	 * @param provider - The registered provider, or undefined for an unregistered class
+	 * @returns The provider kind
+	 */
+	private getProviderKind(
+		provider: Provider<unknown> | undefined,
+	): ProviderKind {
+		if (provider && this.isValueProvider(provider)) return 'value'
+		if (provider && this.isFactoryProvider(provider)) return 'factory'
+		if (provider && this.isExistingProvider(provider)) return 'alias'
+		return 'class'
+	}
+
+	/**
+	 * Log a message if the current log level allows it
+	 *
+	 * MINIMAL messages are logged with `info`, VERBOSE messages with `debug`.
+	 *
+	 * @private
+	 * @param message - The message to log
+	 * @param level - The minimum log level required to log this message
+	 * @param context - Structured context for the logger
+	 */
+	private log(
+		message: string,
+		level: LogLevel = LogLevel.VERBOSE,
+		context?: LogContext,
+	): void {
+		if (this.logLevel === LogLevel.OFF) {
+			return
+		}
+
+		if (level === LogLevel.MINIMAL) {
+			this.logger.info(message, context)
+			return
+		}
+
+		if (this.logLevel === LogLevel.VERBOSE) {
+			this.logger.debug(message, context)
+		}
+	}
+
+	/**
+	 * Log an error message (always logged unless OFF)
+	 *
+	 * @private
+	 * @param message - The error message to log
+	 * @param context - Structured context for the logger
+	 */
+	private logError(message: string, context?: LogContext): void {
+		if (this.logLevel !== LogLevel.OFF) {
+			this.logger.error(message, context)
+		}
+	}
+
+	/**
+	 * Get the key for a provider
+	 *
+	 * @private
+	 * @template T - The provider type
+	 * @param provider - The provider to get the key from
+	 * @returns The injection token or constructor used as the key
+	 */
+	private getProviderKey<T = unknown>(
+		provider: Provider<T>,
+	): InjectionToken | Constructor<unknown> {
+		if (
+			this.isClassProvider(provider) ||
+			this.isValueProvider(provider) ||
+			this.isFactoryProvider(provider) ||
+			this.isExistingProvider(provider)
+		) {
+			return provider.provide
+		}
+		// Plain class constructor
+		return provider as Constructor<T>
+	}
+
+	/**
+	 * Register a provider with the container
+	 *
+	 * Stores the provider configuration for later resolution.
+	 * Value providers are cached immediately.
+	 * Providers with `multi: true` are appended to the token's contributions
+	 * instead of replacing the previous registration.
+	 *
+	 * @template T - The type of instance to provide
+	 * @param provider - The provider configuration
+	 *
+	 * @example
+	 * // Register a class
+	 * container.register(MyService)
+	 *
+	 * @example
+	 * // Register with token
+	 * container.register({ provide: 'CONFIG', useValue: config })
+	 *
+	 * @example
+	 * // Register with factory
+	 * container.register({
+	 *   provide: 'DB',
+	 *   useFactory: (config) => new Database(config),
+	 *   deps: ['CONFIG']
+	 * })
+	 *
+	 * @example
+	 * // Register multi providers
+	 * container.register({ provide: 'RULES', useValue: ruleA, multi: true })
+	 * container.register({ provide: 'RULES', useValue: ruleB, multi: true })
+	 * await container.resolve('RULES') // [ruleA, ruleB]
+	 */
+	public register<T = unknown>(provider: Provider<T>): void {
+		const key = this.getProviderKey(provider)
+		const override = this.providerOverrides.get(key)
+		if (override && override !== provider) {
+			// Overridden tokens keep their override, registered only once
+			if (this.providers.get(key) !== override) {
+				this.register(override)
+			}
+			return
+		}
+		const context: LogContext = {
+			event: 'register',
+			token: this.getTokenName(key),
+		}
+
+		if (this.isMultiProvider(provider) || this.multiProviders.has(key)) {
+			this.registerMulti(key, provider)
+			return
+		}
+
+		if (this.isClassProvider(provider)) {
+			this.log(
+				`Registering class provider: ${String(key)}`,
+				LogLevel.VERBOSE,
+				context,
+			)
+			// Store onDestroy hook if provided
+			if (provider.onDestroy) {
+				// biome-ignore lint/suspicious/noExplicitAny: Need to cast for type compatibility
+				const onDestroyFn = provider.onDestroy as any
+				this.providerMetadata.set(key, {
+					// @ts-expect-error - Provider<T> and Provider<unknown> type mismatch
+					provider,
+					onDestroy: onDestroyFn,
+				})
+			}
+		} else if (this.isValueProvider(provider)) {
+			this.log(
+				`Registering value provider: ${String(key)}`,
+				LogLevel.VERBOSE,
+				context,
+			)
+			this.instances.set(key, provider.useValue)
+		} else if (this.isFactoryProvider(provider)) {
+			this.log(
+				`Registering factory provider: ${String(key)}`,
+				LogLevel.VERBOSE,
+				context,
+			)
+			// Store onDestroy hook if provided
+			if (provider.onDestroy) {
+				// biome-ignore lint/suspicious/noExplicitAny: Need to cast for type compatibility
+				const onDestroyFn = provider.onDestroy as any
+				this.providerMetadata.set(key, {
+					// @ts-expect-error - Provider<T> and Provider<unknown> type mismatch
+					provider,
+					onDestroy: onDestroyFn,
+				})
+			}
+		} else if (this.isExistingProvider(provider)) {
+			this.log(
+				`Registering alias provider: ${String(key)} -> ${this.getTokenName(provider.useExisting)}`,
+				LogLevel.VERBOSE,
+				context,
+			)
+		} else {
+			this.log(
+				`Registering class: ${key.toString()}`,
+				LogLevel.VERBOSE,
+				context,
+			)
+		}
+
+		// @ts-expect-error - Provider<unknown> doesn't match Provider<T>
+		this.providers.set(key, provider)
+		this.emit('registered', {
+			token: key,
+			tokenName: this.getTokenName(key),
+			kind: this.getProviderKind(provider as Provider<unknown>),
+			multi: false,
+		})
+	}
+
+	/**
+	 * Register a contribution to a multi provider token
+	 *
+	 * @private
+	 * @param key - The token the provider contributes to
+	 * @param provider - The multi provider
+	 * @throws {ContainerError} If multi and non-multi providers are mixed, a non-singleton scope is used,
+	 * or the token has already been resolved
+	 */
+	private registerMulti<T = unknown>(
+		key: InjectionToken | Constructor<unknown>,
+		provider: Provider<T>,
+	): void {
+		const tokenName = this.getTokenName(key)
+		const contributions = this.multiProviders.get(key)
+
+		if (
+			!this.isMultiProvider(provider) ||
+			(!contributions && this.providers.has(key))
+		) {
+			throw new ContainerError(
+				`Cannot mix multi and non-multi providers for token: ${tokenName}`,
+			)
+		}
+		if (
+			(this.isClassProvider(provider) || this.isFactoryProvider(provider)) &&
+			provider.scope &&
+			provider.scope !== 'singleton'
+		) {
+			throw new ContainerError(
+				`Multi providers are always singletons, cannot use scope '${provider.scope}' for token: ${tokenName}`,
+			)
+		}
+		// Consumers may already hold the resolved array, so it cannot grow afterwards
+		if (this.instances.has(key) || this.pendingResolutions.has(key)) {
+			throw new ContainerError(
+				`Cannot add a multi provider contribution after the token has been resolved: ${tokenName}`,
+			)
+		}
+
+		this.log(
+			`Registering multi provider contribution: ${tokenName}`,
+			LogLevel.VERBOSE,
+			{ event: 'register', token: tokenName },
+		)
+		const contribution = provider as Provider<unknown>
+		if (contributions) {
+			contributions.push(contribution)
+		} else {
+			this.multiProviders.set(key, [contribution])
+		}
+		this.providers.set(key, contribution)
+		// Weights of the token and everything depending on it change with the new contribution
+		this.weightCache.clear()
+		this.emit('registered', {
+			token: key,
+			tokenName,
+			kind: this.getProviderKind(contribution),
+			multi: true,
+		})
+	}
+
+	/**
+	 * Get an already-resolved instance synchronously
+	 *
+	 * Returns the cached instance if it has been resolved, otherwise returns undefined.
+	 * Use this when you're not sure if an instance has been resolved yet.
+	 * Transient providers are never cached, so this always returns undefined for them.
+	 * Request-scoped instances are looked up in the active request scope.
+	 * Tokens not registered on this container are looked up in the parent.
+	 *
+	 * @template T - The type of instance to get
+	 * @param token - The injection token or class constructor
+	 * @returns The resolved instance or undefined if not yet resolved
+	 *
+	 * @example
+	 * const instance = container.getInstance(MyService)
+	 * if (instance) {
+	 *   instance.doSomething()
+	 * }
+	 */
+	public getInstance<T = unknown>(
+		token: InjectionToken<T> | Constructor<T>,
+	): T | undefined {
+		if (this.instances.has(token)) {
+			return this.instances.get(token) as T
+		}
+		const aliasTarget = this.getAliasTarget(token)
+		if (aliasTarget !== undefined) {
+			return this.getInstance(aliasTarget as InjectionToken<T>)
+		}
+		const requestScope = this.scopeStorage.getStore()
+		if (requestScope?.has(token)) {
+			return requestScope.get(token)
+		}
+		if (!this.providers.has(token)) {
+			return this.parent?.getInstance(token)
+		}
+		return undefined
+	}
+
+	/**
+	 * Remove the cached instance of a token, so that it is created again
+	 *
+	 * The instance is removed from the container that owns it, which is an
+	 * ancestor when the token is inherited. No onDestroy hook is called.
+	 *
+	 * @private
+	 * @param token - The injection token or class constructor
+	 * @returns True if a cached instance was removed
+	 */
+	private clearInstance(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): boolean {
+		if (this.instances.delete(token)) {
+			return true
+		}
+		if (!this.providers.has(token)) {
+			return this.parent?.clearInstance(token) ?? false
+		}
+		return false
+	}
+
+	/**
+	 * Get an already-resolved instance synchronously
+	 *
+	 * Returns the cached instance if it has been resolved, throws an error otherwise.
+	 * Use this when you expect the instance to already be resolved.
+	 *
+	 * @template T - The type of instance to get
+	 * @param token - The injection token or class constructor
+	 * @returns The resolved instance
+	 * @throws {UnresolvedInstanceError} If the instance has not been resolved yet or the provider is transient
+	 *
+	 * @example
+	 * const instance = container.getInstanceOrThrow(MyService)
+	 * instance.doSomething()
+	 */
+	public getInstanceOrThrow<T = unknown>(
+		token: InjectionToken<T> | Constructor<T>,
+	): T {
+		if (!this.instances.has(token)) {
+			const aliasTarget = this.getAliasTarget(token)
+			if (aliasTarget !== undefined) {
+				return this.getInstanceOrThrow(aliasTarget as InjectionToken<T>)
+			}
+			const requestScope = this.scopeStorage.getStore()
+			if (requestScope?.has(token)) {
+				return requestScope.get(token) as T
+			}
+			if (!this.providers.has(token) && this.parent) {
+				return this.parent.getInstanceOrThrow(token)
+			}
+			const tokenName = this.getTokenName(token)
+			if (this.getScope(token) === 'transient') {
+				throw new UnresolvedInstanceError(
+					tokenName,
+					`Cannot get transient instance synchronously: ${tokenName}. ` +
+						`Use resolve() to create a new instance.`,
+				)
+			}
+			throw new UnresolvedInstanceError(tokenName)
+		}
+		return this.instances.get(token) as T
+	}
+
+	/**
+	 * Get the instances map (for advanced usage)
+	 *
+	 * Returns a read-only view of all resolved instances in the container.
+	 * For a child container, only its own instances are included.
+	 *
+	 * @returns Read-only map of all cached instances
+	 *
+	 * @example
+	 * const instances = container.getInstancesMap()
+	 * console.log(`Resolved ${instances.size} instances`)
+	 */
+	public getInstancesMap(): ReadonlyMap<
+		InjectionToken | Constructor<unknown>,
+		unknown
+	> {
+		return this.instances
+	}
+
+	/**
+	 * Get the providers map (for advanced usage)
+	 *
+	 * Returns a read-only view of all registered providers in the container.
+	 * For a child container, only its own (not inherited) providers are included.
+	 *
+	 * @returns Read-only map of all registered providers
+	 *
+	 * @example
+	 * const providers = container.getProvidersMap()
+	 * console.log(`Registered ${providers.size} providers`)
+	 */
+	public getProvidersMap(): ReadonlyMap<
+		InjectionToken | Constructor<unknown>,
+		Provider<unknown>
+	> {
+		return this.providers
+	}
+
+	/**
+	 * Create a new request scope
+	 *
+	 * Request-scoped providers resolved inside `scope.run()` are cached in the scope.
+	 * Call `scope.destroy()` when the request ends to run their onDestroy hooks.
+	 * Prefer `runInScope()` which handles the cleanup automatically.
+	 *
+	 * @returns A new, empty request scope
+	 *
+	 * @example
+	 * const scope = container.createScope()
+	 * await scope.run(async () => {
+	 *   const ctx = await container.resolve(RequestContext)
+	 * })
+	 * await scope.destroy()
+	 */
+	public createScope(): RequestScope {
+		return new RequestScope(this.scopeStorage, (error) =>
+			this.logError(`  ✗ ${error.message}`, {
+				event: 'destroyFailed',
+				token: error.token,
+				error,
+			}),
+		)
+	}
+
+	/**
+	 * Run a callback inside a new request scope
+	 *
+	 * The scope propagates through `await`, so every resolve() made while the
+	 * callback runs shares the same request-scoped instances.
+	 * The scope is destroyed when the callback settles, even if it throws.
+	 *
+	 * @template R - The callback result type
+	 * @param callback - The function to run inside the scope
+	 * @returns A promise that resolves to the callback result
+	 *
+	 * @example
+	 * app.get('/users', (req, res) =>
+	 *   container.runInScope(async () => {
+	 *     const handler = await container.resolve(UserHandler)
+	 *     res.json(await handler.list())
+	 *   }),
+	 * )
+	 */
+	public async runInScope<R>(
+		callback: (scope: RequestScope) => Promise<R> | R,
+	): Promise<R> {
+		const scope = this.createScope()
+		try {
+			return await scope.run(() => callback(scope))
+		} finally {
+			await scope.destroy()
+		}
+	}
+
+	/**
+	 * Get the request scope active in the current async context
+	 *
+	 * @returns The active request scope or undefined outside of a scope
+	 */
+	public getCurrentScope(): RequestScope | undefined {
+		return this.scopeStorage.getStore()
+	}
+
+	/**
+	 * Resolve a dependency by token or class
+	 *
+	 * Resolves the dependency and all its transitive dependencies.
+	 * The result is cached for subsequent calls, unless the provider is transient,
+	 * in which case a new instance is created (and initialized) on every call.
+	 * Request-scoped providers are cached in the active request scope and
+	 * can only be resolved inside one.
+	 * Tokens not registered on a child container are resolved by its parent.
+	 * Multi provider tokens resolve to an array of all contributions.
+	 * Alias (`useExisting`) tokens resolve to the instance of their target.
+	 * Concurrent resolutions of the same singleton share one instantiation.
+	 * Detects circular dependencies along each call's resolution chain and throws an error if found.
+	 *
+	 * @template T - The type of instance to resolve
+	 * @param token - The injection token or class constructor to resolve
+	 * @param skipCircularCheck - Internal flag to skip circular dependency detection
+	 * @returns A promise that resolves to the instance
+	 * @throws {ProviderNotFoundError} If a token in the graph has no provider
+	 * @throws {CircularDependencyError} If a circular dependency is detected
+	 * @throws {UndefinedParameterTypeError} If a constructor parameter type is unknown
+	 * @throws {LifecycleHookError} If an onInit hook fails
+	 * @throws {ContainerError} If a scope or group encapsulation rule is violated
+	 *
+	 * @example
+	 * const service = await container.resolve(MyService)
+	 *
+	 * @example
+	 * const config = await container.resolve('CONFIG')
+	 *
+	 * @example
+	 * // The instance type is inferred from a typed token
+	 * const CONFIG = new Token<Config>('CONFIG')
+	 * const config = await container.resolve(CONFIG) // Config
+	 */
+	public resolve<T = unknown>(
+		ctor: Constructor<T>,
+		skipCircularCheck?: boolean,
+	): Promise<T>
+	public resolve<T = unknown>(
+		token: InjectionToken<T>,
+		skipCircularCheck?: boolean,
+	): Promise<T>
+	public async resolve<T = unknown>(
+		token: InjectionToken<T> | Constructor<T>,
+		skipCircularCheck = false,
+	): Promise<T> {
+		// While profiling, record the time the requesting token spends awaiting this one
+		const consumer = this.profiles && this.chainStorage.getStore()?.at(-1)
+		const profile = consumer && this.profiles?.get(consumer)
+		if (!profile) {
+			return this.resolveToken(token, skipCircularCheck)
+		}
+
+		const startedAt = performance.now()
+		try {
+			return await this.resolveToken(token, skipCircularCheck)
+		} finally {
+			profile.dependencyTime += performance.now() - startedAt
+			const tokenName = this.getTokenName(token)
+			if (!profile.dependencies.includes(tokenName)) {
+				profile.dependencies.push(tokenName)
+			}
+		}
+	}
+
+	/**
+	 * Resolve a token (see `resolve()`)
+	 *
+	 * @private
+	 * @template T - The type of instance to resolve
+	 * @param token - The injection token or class constructor to resolve
+	 * @param skipCircularCheck - Skip circular dependency detection (for lazy references)
+	 * @returns A promise that resolves to the instance
+	 */
+	private async resolveToken<T>(
+		token: InjectionToken<T> | Constructor<T>,
+		skipCircularCheck: boolean,
+	): Promise<T> {
+		this.log(`Resolving: ${this.getTokenName(token)}`, LogLevel.VERBOSE, {
+			event: 'resolve',
+			token: this.getTokenName(token),
+		})
+
+		// Check if already instantiated
+		if (this.instances.has(token)) {
+			this.log(`  -> Returning cached instance`)
+			return this.instances.get(token) as T
+		}
+
+		// Check the active request scope
+		const requestScope = this.scopeStorage.getStore()
+		if (requestScope?.has(token)) {
+			this.log(`  -> Returning request-scoped instance`)
+			return requestScope.get(token) as T
+		}
+
+		// Tokens with a default factory are provided by the root container on first use
+		if (
+			token instanceof Token &&
+			token.factory &&
+			!this.parent &&
+			!this.providers.has(token)
+		) {
+			this.log(`  -> Registering default factory of token`)
+			this.register({ provide: token, useFactory: token.factory })
+		}
+
+		// Inherited providers are resolved by the container that registered them
+		if (!this.providers.has(token) && this.parent?.hasProvider(token)) {
+			this.log(`  -> Delegating to parent container`)
+			return this.parent.resolve(token)
+		}
+
+		// Detect circular dependencies along this call's resolution chain (skip for lazy references)
+		const chain = this.chainStorage.getStore() ?? []
+		if (!skipCircularCheck && chain.includes(token)) {
+			this.throwCircularDependency([...chain, token])
+		}
+
+		// Concurrent callers share the in-flight resolution of a singleton or request-scoped instance
+		const pending =
+			this.pendingResolutions.get(token) ?? requestScope?.getPending(token)
+		if (pending) {
+			this.assertNoPendingCycle(token, chain)
+			this.log(`  -> Waiting for in-flight resolution`)
+			return pending as Promise<T>
+		}
+
+		// Only track in the resolution chain if not skipping circular check
+		const resolutionChain = skipCircularCheck ? chain : [...chain, token]
+		const event =
+			this.hasListeners('resolving') || this.hasListeners('resolved')
+				? this.createResolvingEvent(token)
+				: undefined
+		if (event) {
+			this.emit('resolving', event)
+		}
+		const startedAt = performance.now()
+		try {
+			const instance = await this.chainStorage.run(resolutionChain, () =>
+				this.instantiate(token, requestScope),
+			)
+			if (event) {
+				this.emit('resolved', {
+					...event,
+					duration: performance.now() - startedAt,
+				})
+			}
+			return instance
+		} catch (error) {
+			// Remember the deepest chain the error was thrown from
+			if (
+				typeof error === 'object' &&
+				error !== null &&
+				!this.failurePaths.has(error)
+			) {
+				this.failurePaths.set(error, [...chain, token])
+			}
+			throw error
+		}
+	}
+
+	/**
+	 * Create the payload of the resolving event of a token
+	 *
+	 * @private
+	 * @param token - The token being resolved
+	 * @returns The event payload
+	 */
+	private createResolvingEvent(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): ResolvingEvent {
+		return {
+			token,
+			tokenName: this.getTokenName(token),
+			kind: this.getProviderKind(this.providers.get(token)),
+			scope: this.getScope(token),
+			weight: this.calculateWeight(token),
+		}
+	}
+
+	/**
+	 * Create, initialize and cache the instance of a registered or class token
+	 *
+	 * Singletons and request-scoped instances are tracked as in-flight until
+	 * they are cached, so that concurrent resolutions wait for the same
+	 * instance instead of creating another.
+	 *
+	 * @private
+	 * @template T - The type of instance to create
+	 * @param token - The token being resolved
+	 * @param requestScope - The active request scope, if any
+	 * @returns A promise that resolves to the instance
+	 */
+	private async instantiate<T>(
+		token: InjectionToken<T> | Constructor<T>,
+		requestScope: RequestScope | undefined,
+	): Promise<T> {
+		const provider = this.providers.get(token)
+
+		if (!provider) {
+			// If it's a class constructor and not registered, try to instantiate it
+			if (typeof token === 'function') {
+				const instance = await this.instantiateClass(
+					token as Constructor<T>,
+					token,
+				)
+				return this.applyInterceptors(token, instance) as T
+			}
+			throw this.createProviderNotFoundError(token)
+		}
+
+		// Alias: resolve to the target's instance (cached under the target only)
+		if (this.isExistingProvider(provider)) {
+			this.log(`  -> Alias of: ${this.getTokenName(provider.useExisting)}`)
+			this.assertGroupAccess(token, provider.useExisting)
+			return (await this.resolve(provider.useExisting)) as T
+		}
+
+		const contributions = this.multiProviders.get(token)
+		const scope = contributions ? 'singleton' : this.getProviderScope(provider)
+		if (scope === 'request' && !requestScope) {
+			throw new ContainerError(
+				`Cannot resolve request-scoped provider outside of a request scope: ${this.getTokenName(token)}. ` +
+					`Use runInScope() or createScope().run().`,
+			)
+		}
+
+		if (scope === 'transient') {
+			// Transient instances are handed out without being cached
+			const instance = await this.createInstance(token, provider)
+			this.log(`  -> Transient scope, instance not cached`)
+			return instance as T
+		}
+
+		if (scope === 'request' && requestScope) {
+			const pending = this.createInstance(token, provider).then((instance) => {
+				this.log(`  -> Caching instance in request scope`)
+				requestScope.set(
+					token,
+					instance,
+					this.providerMetadata.get(token)?.onDestroy,
+				)
+				return instance
+			})
+			requestScope.setPending(token, pending)
+			return (await pending) as T
+		}
+
+		this.assertNoRequestScopedDependencies(token)
+
+		const pending = this.createSingleton(token, provider, contributions)
+		this.pendingResolutions.set(token, pending)
+		try {
+			const instance = await pending
+			this.instances.set(token, instance)
+			return instance as T
+		} finally {
+			this.pendingResolutions.delete(token)
+		}
+	}
+
+	/**
+	 * Create the instance of a singleton token
+	 *
+	 * @private
+	 * @param token - The token being resolved
+	 * @param provider - The registered provider of the token
+	 * @param contributions - The contributions of a multi provider token
+	 * @returns A promise that resolves to the instance (an array for multi providers)
+	 */
+	private async createSingleton(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		provider: Provider<unknown>,
+		contributions: Provider<unknown>[] | undefined,
+	): Promise<unknown> {
+		if (!contributions) {
+			return this.createInstance(token, provider)
+		}
+
+		// Multi provider: create every contribution in registration order
+		this.log(
+			`  -> Resolving ${contributions.length} multi provider contributions`,
+		)
+		const values: unknown[] = []
+		for (const contribution of contributions) {
+			values.push(await this.createInstance(token, contribution))
+		}
+		return values
+	}
+
+	/**
+	 * Throw a circular dependency error for a resolution chain
+	 *
+	 * @private
+	 * @param chain - The tokens of the chain, ending with the repeated token
+	 * @throws {CircularDependencyError} Always
+	 */
+	private throwCircularDependency(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		chain: (InjectionToken | Constructor<any>)[],
+	): never {
+		throw new CircularDependencyError(chain.map((t) => this.getTokenName(t)))
+	}
+
+	/**
+	 * Ensure waiting for an in-flight resolution cannot deadlock
+	 *
+	 * When another call is creating the token and the token depends on a token
+	 * this call is creating, both calls would wait for each other forever.
+	 * This is a circular dependency that neither call has reached yet, so it is
+	 * reported from the dependency graph instead.
+	 *
+	 * @private
+	 * @param token - The token with an in-flight resolution
+	 * @param chain - The resolution chain of the waiting call
+	 * @throws {CircularDependencyError} If the token depends on a token of the chain
+	 */
+	private assertNoPendingCycle(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		chain: (InjectionToken | Constructor<any>)[],
+	): void {
+		if (chain.length === 0) {
+			return
+		}
+
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const visited = new Set<InjectionToken | Constructor<any>>()
+		const findPath = (
+			// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+			current: InjectionToken | Constructor<any>,
+			// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		): (InjectionToken | Constructor<any>)[] | undefined => {
+			for (const dep of this.getTokenDependencies(current)) {
+				if (chain.includes(dep)) {
+					return [dep]
+				}
+				if (visited.has(dep)) continue
+				visited.add(dep)
+
+				const path = findPath(dep)
+				if (path) {
+					return [dep, ...path]
+				}
+			}
+			return undefined
+		}
+
+		const path = findPath(token)
+		if (path) {
+			// The path ends with the first token of the chain it reaches
+			this.throwCircularDependency([
+				...chain.slice(chain.findIndex((t) => path.includes(t))),
+				token,
+				...path,
+			])
+		}
+	}
+
+	/**
+	 * Create an instance from a provider and run its onInit hooks
+	 *
+	 * Interceptors are applied before the onInit hooks, so the hooks and the
+	 * cache receive the same intercepted instance.
+	 *
+	 * @private
+	 * @param token - The token being resolved
+	 * @param provider - The provider to create the instance from
+	 * @returns A promise that resolves to the initialized instance
+	 */
+	private async createInstance(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		provider: Provider<unknown>,
+	): Promise<unknown> {
+		let instance: unknown
+
+		if (this.isValueProvider(provider)) {
+			return provider.useValue
+		}
+		if (this.isExistingProvider(provider)) {
+			// Aliases never create instances of their own
+			return this.resolve(provider.useExisting)
+		}
+
+		this.startProfile(token)
+		if (this.isClassProvider(provider)) {
+			instance = await this.profileStep(token, 'construction', () =>
+				this.instantiateClass(provider.useClass, token),
+			)
+			instance = this.applyInterceptors(token, instance)
+			// Call provider-level onInit lifecycle hook if provided
+			if (provider.onInit) {
+				const onInit = provider.onInit
+				this.log(
+					`  -> Calling provider onInit for: ${this.getTokenName(token)}`,
+				)
+				await this.profileStep(token, 'providerInit', () =>
+					this.runLifecycleHook(token, 'onInit', () => onInit(instance)),
+				)
+			}
+		} else if (this.isFactoryProvider(provider)) {
+			instance = await this.profileStep(token, 'construction', () =>
+				this.instantiateFactory(provider),
+			)
+			instance = this.applyInterceptors(token, instance)
+			// Call provider-level onInit lifecycle hook if provided
+			if (provider.onInit) {
+				const onInit = provider.onInit
+				this.log(
+					`  -> Calling provider onInit for: ${this.getTokenName(token)}`,
+				)
+				await this.profileStep(token, 'providerInit', () =>
+					this.runLifecycleHook(token, 'onInit', () => onInit(instance)),
+				)
+			}
+		} else {
+			// Plain class constructor
+			instance = await this.profileStep(token, 'construction', () =>
+				this.instantiateClass(provider, token),
+			)
+			instance = this.applyInterceptors(token, instance)
+		}
+
+		// Call instance-level onInit method if it implements OnInit
+		if (this.hasOnInit(instance)) {
+			const initializable = instance
+			this.log(`  -> Calling instance onInit for: ${this.getTokenName(token)}`)
+			await this.profileStep(token, 'instanceInit', () =>
+				this.runLifecycleHook(token, 'onInit', () => initializable.onInit()),
+			)
+		}
+
+		return instance
+	}
+
+	/**
+	 * Start recording the timings of a token, when profiling
+	 *
+	 * @private
+	 * @param token - The token whose instance is being created
+	 */
+	private startProfile(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): void {
+		if (!this.profiles || this.profiles.has(token)) {
+			return
+		}
+		this.profiles.set(token, {
+			token: this.getTokenName(token),
+			weight: this.calculateWeight(token),
+			construction: 0,
+			providerInit: 0,
+			instanceInit: 0,
+			total: 0,
+			dependencyTime: 0,
+			dependencies: [],
+		})
+	}
+
+	/**
+	 * Run a step of instance creation, adding its duration to the token's profile
+	 *
+	 * Time spent awaiting dependencies during the step is not counted.
+	 *
+	 * @private
+	 * @template R - The step result type
+	 * @param token - The token whose instance is being created
+	 * @param step - The profile field to add the duration to
+	 * @param callback - Runs the step
+	 * @returns The step result
+	 */
+	private async profileStep<R>(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		step: 'construction' | 'providerInit' | 'instanceInit',
+		callback: () => Promise<R>,
+	): Promise<R> {
+		const profile = this.profiles?.get(token)
+		if (!profile) {
+			return callback()
+		}
+
+		const startedAt = performance.now()
+		const dependencyTime = profile.dependencyTime
+		try {
+			return await callback()
+		} finally {
+			const waited = profile.dependencyTime - dependencyTime
+			profile[step] += performance.now() - startedAt - waited
+			profile.total =
+				profile.construction + profile.providerInit + profile.instanceInit
+		}
+	}
+
+	/**
+	 * Run a lifecycle hook, wrapping its errors in a LifecycleHookError
+	 *
+	 * @private
+	 * @param token - The token whose hook runs
+	 * @param hook - The name of the hook
+	 * @param callback - Calls the hook
+	 * @throws {LifecycleHookError} If the hook throws
+	 */
+	private async runLifecycleHook(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		hook: 'onInit' | 'onDestroy',
+		callback: () => Promise<void> | void,
+	): Promise<void> {
+		try {
+			await callback()
+		} catch (error) {
+			const hookError = new LifecycleHookError(
+				this.getTokenName(token),
+				hook,
+				error,
+			)
+			if (hook === 'onInit') {
+				this.emit('initFailed', {
+					token,
+					tokenName: hookError.token,
+					error: hookError,
+				})
+			}
+			throw hookError
+		}
+	}
+
+	/**
+	 * Instantiate a class by resolving its dependencies
+	 *
+	 * @private
+	 * @template T - The type of instance to create
+	 * @param target - The class constructor to instantiate
+	 * @param consumer - The token being resolved (used for group encapsulation checks)
+	 * @returns A promise that resolves to the new instance
+	 */
+	private async instantiateClass<T = unknown>(
+		target: Constructor<T>,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		consumer: InjectionToken | Constructor<any>,
+	): Promise<T> {
+		this.log(`  -> Instantiating class: ${target.name}`)
+
+		// Get parameter types, @Inject tokens and @Optional flags (inherited without own constructor)
+		const {
+			paramTypes,
+			tokens: injectionTokens,
+			optional: optionalParams,
+		} = getConstructorMetadata(target)
+
+		// Resolve dependencies SEQUENTIALLY to avoid false circular dependency errors
+		// when multiple parameters depend on the same service
+		const dependencies: unknown[] = []
+		for (let index = 0; index < paramTypes.length; index++) {
+			const paramType = paramTypes[index]
+			const token = injectionTokens[index]
+
+			if (token) {
+				dependencies.push(
+					await this.resolveInjectedToken(
+						consumer,
+						token,
+						optionalParams[index] === true,
+						index,
+					),
+				)
+				continue
+			}
+
+			// Missing optional dependencies are injected as undefined
+			if (
+				optionalParams[index] &&
+				(!paramType || !this.hasProvider(paramType))
+			) {
+				this.log(`    -> Optional parameter not provided at index ${index}`)
+				dependencies.push(undefined)
+				continue
+			}
+
+			// Otherwise, use the parameter type
+			if (paramType) {
+				this.log(`    -> Resolving parameter type: ${paramType.name}`)
+				this.assertGroupAccess(consumer, paramType)
+				dependencies.push(await this.resolve(paramType))
+				continue
+			}
+
+			throw new UndefinedParameterTypeError(
+				target.name,
+				index,
+				this.getResolutionChain(consumer),
+			)
+		}
+
+		const instance = new target(...dependencies)
+		this.log(`  -> Created instance of ${target.name}`, LogLevel.VERBOSE, {
+			event: 'instantiate',
+			token: target.name,
+		})
+
+		// Inject decorated fields after construction
+		for (const property of getInjectedProperties(target)) {
+			if (!property.token && !property.optional) {
+				throw new UndefinedParameterTypeError(
+					target.name,
+					property.key,
+					this.getResolutionChain(consumer),
+				)
+			}
+			this.log(`    -> Injecting property: ${String(property.key)}`)
+			const value = await this.resolveInjectedToken(
+				consumer,
+				property.token,
+				property.optional === true,
+				property.key,
+			)
+			Reflect.set(instance as object, property.key, value)
+		}
+
+		return instance
+	}
+
+	/**
+	 * Resolve the value of an `@Inject()` or `@Lazy()` token
+	 *
+	 * @private
+	 * @param consumer - The token being resolved (used for group encapsulation checks)
+	 * @param token - The injection token, or a lazy marker
+	 * @param optional - Whether undefined is injected when the token has no provider
+	 * @param position - The constructor parameter index or field name (for error messages)
+	 * @returns A promise that resolves to the value to inject
+	 */
+	private async resolveInjectedToken(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		consumer: InjectionToken | Constructor<any>,
+		token: unknown,
+		optional: boolean,
+		position: number | string | symbol,
+	): Promise<unknown> {
+		// Check if it's the new @Lazy decorator pattern
+		if (token && typeof token === 'object' && '__lazyToken' in token) {
+			this.log(`    -> Creating LazyRef wrapper`)
+			const lazyToken = token.__lazyToken as InjectionToken
+			this.assertGroupAccess(consumer, lazyToken)
+			return new LazyRef(this, lazyToken)
+		}
+
+		// Check if it's the old lazy() function pattern (LazyRefMarker)
+		if (token instanceof LazyRefMarker) {
+			this.log(`    -> Creating LazyRef wrapper (old style)`)
+			const actualClass = token.ref()
+			this.assertGroupAccess(consumer, actualClass)
+			return new LazyRef(this, actualClass)
+		}
+
+		if (optional && !this.hasProvider(token as InjectionToken)) {
+			this.log(`    -> Optional token not provided: ${String(token)}`)
+			return undefined
+		}
+
+		this.log(`    -> Resolving @Inject token: ${String(token)}`)
+		this.assertGroupAccess(consumer, token as InjectionToken)
+		if (
+			typeof token !== 'function' &&
+			!this.hasProvider(token as InjectionToken)
+		) {
+			throw this.createProviderNotFoundError(
+				token as InjectionToken,
+				consumer,
+				position,
+			)
+		}
+		return this.resolve(token as InjectionToken)
+	}
+
+	/**
+	 * Create the error for a token without a provider
+	 *
+	 * @private
+	 * @param token - The missing token
+	 * @param consumer - The token that requested it, if known
+	 * @param position - The parameter index or field name it was requested for
+	 * @returns The error with the resolution chain and similar token names
+	 */
+	private createProviderNotFoundError(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		consumer?: InjectionToken | Constructor<any>,
+		position?: number | string | symbol,
+	): ProviderNotFoundError {
+		const chain = this.getResolutionChain(token)
+		const tokenName = this.getTokenName(token)
+		return new ProviderNotFoundError(tokenName, chain, {
+			requiredBy: consumer ? this.getTokenName(consumer) : chain.at(-2),
+			parameterIndex: typeof position === 'number' ? position : undefined,
+			propertyKey:
+				position !== undefined && typeof position !== 'number'
+					? position
+					: undefined,
+			suggestions: this.getSimilarTokenNames(tokenName),
+		})
+	}
+
+	/**
+	 * Get the token names of the current resolution chain, ending with a token
+	 *
+	 * @private
+	 * @param token - The token being resolved or requested
+	 * @returns The names of the tokens from the first resolve() call to the token
+	 */
+	private getResolutionChain(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): string[] {
+		const chain = this.chainStorage.getStore() ?? []
+		return (chain.includes(token) ? chain : [...chain, token]).map((t) =>
+			this.getTokenName(t),
+		)
+	}
+
+	/**
+	 * Find registered tokens with a name similar to a missing token
+	 *
+	 * Matches names within a small edit distance (ignoring case) and names
+	 * containing each other, closest first.
+	 *
+	 * @private
+	 * @param name - The name of the missing token
+	 * @returns Up to three similar token names
+	 */
+	private getSimilarTokenNames(name: string): string[] {
+		const names = new Set<string>()
+		for (
+			let container: Container | undefined = this;
+			container;
+			container = container.parent
+		) {
+			for (const token of container.providers.keys()) {
+				names.add(this.getTokenName(token))
+			}
+		}
+		names.delete(name)
+
+		const target = name.toLowerCase()
+		const maxDistance = Math.max(2, Math.floor(target.length / 3))
+		return Array.from(names)
+			.map((candidate) => {
+				const lower = candidate.toLowerCase()
+				const contains =
+					Math.min(lower.length, target.length) >= 3 &&
+					(lower.includes(target) || target.includes(lower))
+				return {
+					candidate,
+					distance: contains ? 0 : getEditDistance(lower, target),
+				}
+			})
+			.filter(({ distance }) => distance <= maxDistance)
+			.sort((a, b) => a.distance - b.distance)
+			.slice(0, 3)
+			.map(({ candidate }) => candidate)
+	}
+
+	/**
+	 * Instantiate using a factory function
+	 *
+	 * @private
+	 * @template T - The type of instance to create
+	 * @param provider - The factory provider configuration
+	 * @returns A promise that resolves to the new instance
+	 */
+	private async instantiateFactory<T>(
+		provider: FactoryProvider<T>,
+	): Promise<T> {
+		this.log(`  -> Calling factory for: ${String(provider.provide)}`)
+
+		// Resolve dependencies sequentially
+		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
+		const deps: any[] = []
+		for (const [index, dep] of (provider.deps || []).entries()) {
+			const { token, optional, defaultValue } =
+				this.normalizeFactoryDependency(dep)
+			if (optional && !this.hasProvider(token)) {
+				this.log(`    -> Optional token not provided: ${String(token)}`)
+				deps.push(defaultValue)
+				continue
+			}
+			this.assertGroupAccess(provider.provide, token)
+			if (typeof token !== 'function' && !this.hasProvider(token)) {
+				throw this.createProviderNotFoundError(token, provider.provide, index)
+			}
+			deps.push(await this.resolve(token))
+		}
+		const instance = await provider.useFactory(...deps)
+		return instance
+	}
 
 	/**
-	 * Clear all providers and instances
+	 * Normalize a factory dependency to its token and options
 	 *
-	 * Removes all registered providers and cached instances.
-	 * Useful for testing or resetting the container state.
+	 * @private
+	 * @param dep - A token or a token with options
+	 * @returns The token, whether it is optional and its default value
+	 */
+	private normalizeFactoryDependency(dep: FactoryDependency): {
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>
+		optional: boolean
+		defaultValue: unknown
+	} {
+		if (typeof dep === 'object' && !(dep instanceof Token) && 'token' in dep) {
+			return {
+				token: dep.token,
+				optional: dep.optional === true,
+				defaultValue: dep.default,
+			}
+		}
+		return { token: dep, optional: false, defaultValue: undefined }
+	}
+
+	/**
+	 * Get the tokens of factory dependencies that take part in resolution
+	 *
+	 * Optional dependencies without a registered provider are left out.
+	 *
+	 * @private
+	 * @param deps - The factory dependencies
+	 * @returns The dependency tokens
+	 */
+	private getFactoryDependencyTokens(
+		deps: FactoryDependency[],
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	): (InjectionToken | Constructor<any>)[] {
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const tokens: (InjectionToken | Constructor<any>)[] = []
+		for (const dep of deps) {
+			const { token, optional } = this.normalizeFactoryDependency(dep)
+			if (!optional || this.hasProvider(token)) {
+				tokens.push(token)
+			}
+		}
+		return tokens
+	}
+
+	// ============================================================================
+	// Dependency Weight Calculation
+	// ============================================================================
+
+	/**
+	 * Calculate the dependency weight for a token
+	 *
+	 * Weight represents the depth of the dependency tree.
+	 * Higher weight = more dependencies = should be resolved later.
+	 * Value providers and services with no dependencies have weight 0.
+	 *
+	 * @param token - The injection token or class to calculate weight for
+	 * @returns The dependency weight (0 or higher)
 	 *
 	 * @example
-	 * container.clear()
+	 * const weight = container.calculateWeight(MyService)
+	 * console.log(`MyService has weight ${weight}`)
 	 */
-	public clear(): void {
-		this.providers.clear()
-		this.instances.clear()
-		this.resolutionStack.clear()
-		this.weightCache.clear()
-		this.providerMetadata.clear()
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	public calculateWeight(token: InjectionToken | Constructor<any>): number {
+		// Check cache first
+		if (this.weightCache.has(token)) {
+			// biome-ignore lint/style/noNonNullAssertion: We know the value exists from the has() check
+			return this.weightCache.get(token)!
+		}
+
+		// Value providers have weight 0 (no dependencies)
+		const provider = this.getProvider(token)
+		if (
+			!provider ||
+			(this.isValueProvider(provider) && !this.getContributions(token))
+		) {
+			this.weightCache.set(token, 0)
+			return 0
+		}
+
+		// Track visited nodes to detect cycles
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+		const visited = new Set<InjectionToken | Constructor<any>>()
+		const weight = this.calculateWeightRecursive(token, visited)
+		this.weightCache.set(token, weight)
+		return weight
+	}
+
+	/**
+	 * Recursive helper for weight calculation
+	 *
+	 * @private
+	 * @param token - The token to calculate weight for
+	 * @param visited - Set of already visited tokens (to detect cycles)
+	 * @returns The calculated weight
+	 */
+	private calculateWeightRecursive(
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+		visited: Set<InjectionToken | Constructor<any>>,
+	): number {
+		// Circular dependency or already visited
+		if (visited.has(token)) {
+			return 0
+		}
+
+		visited.add(token)
+
+		// Value providers and unknown tokens have no dependencies
+		const deps = this.getTokenDependencies(token)
+
+		// If no dependencies, weight is 0
+		if (deps.length === 0) {
+			return 0
+		}
+
+		// Otherwise, weight = max dependency weight + 1
+		let maxDepWeight = 0
+		for (const dep of deps) {
+			const depWeight = this.calculateWeightRecursive(dep, new Set(visited))
+			maxDepWeight = Math.max(maxDepWeight, depWeight)
+		}
+
+		return maxDepWeight + 1
+	}
+
+	/**
+	 * Get the direct (non-lazy) dependencies of a provider
+	 *
+	 * @private
+	 * @param provider - The provider to analyze
+	 * @returns Array of dependency tokens (groups flattened)
+	 */
+	private getProviderDependencies(
+		provider: Provider<unknown>,
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+	): (InjectionToken | Constructor<any>)[] {
+		if (this.isValueProvider(provider)) {
+			return []
+		}
+		if (this.isExistingProvider(provider)) {
+			// Alias provider: depends on its target
+			return [provider.useExisting]
+		}
+		if (this.isFactoryProvider(provider)) {
+			// Factory provider: use explicit deps (flatten groups, skip missing optional deps)
+			return provider.deps
+				? this.flattenDeps(this.getFactoryDependencyTokens(provider.deps))
+				: []
+		}
+		if (this.isClassProvider(provider)) {
+			// Class provider: merge explicit deps with constructor dependencies
+			const explicitDeps = provider.deps ? this.flattenDeps(provider.deps) : []
+			const constructorDeps = this.getClassDependencies(provider.useClass)
+			// Combine both, using Set to avoid duplicates
+			return [...new Set([...explicitDeps, ...constructorDeps])]
+		}
+		// Plain constructor
+		// biome-ignore lint/suspicious/noExplicitAny: Provider is a constructor of any type
+		return this.getClassDependencies(provider as Constructor<any>)
+	}
+
+	/**
+	 * Get the lazy dependencies of a provider
+	 *
+	 * Collects the targets of `@Lazy()` and `lazy()` / `forwardRef()` on
+	 * constructor parameters and fields of class providers.
+	 *
+	 * @private
+	 * @param provider - The provider to analyze
+	 * @returns Array of lazily injected tokens
+	 */
+	private getLazyDependencies(
+		provider: Provider<unknown>,
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+	): (InjectionToken | Constructor<any>)[] {
+		if (
+			this.isValueProvider(provider) ||
+			this.isExistingProvider(provider) ||
+			this.isFactoryProvider(provider)
+		) {
+			return []
+		}
+		const target = this.isClassProvider(provider)
+			? provider.useClass
+			: // biome-ignore lint/suspicious/noExplicitAny: Provider is a constructor of any type
+				(provider as Constructor<any>)
+		const properties: InjectedProperty[] =
+			Reflect.getMetadata('inject:properties', target) || []
+		// biome-ignore lint/suspicious/noExplicitAny: Injection tokens can be of any type
+		const injectionTokens: any[] = [
+			...getConstructorMetadata(target).tokens,
+			...properties.map((property) => property.token),
+		]
+
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+		const dependencies: (InjectionToken | Constructor<any>)[] = []
+		for (const injectToken of injectionTokens) {
+			// Check for new @Lazy pattern
+			if (
+				injectToken &&
+				typeof injectToken === 'object' &&
+				'__lazyToken' in injectToken
+			) {
+				dependencies.push(injectToken.__lazyToken)
+			}
+			// Check for old lazy() pattern
+			if (injectToken instanceof LazyRefMarker) {
+				dependencies.push(injectToken.ref())
+			}
+		}
+		return dependencies
+	}
+
+	/**
+	 * Get the direct (non-lazy) dependencies of a registered token
+	 *
+	 * For multi providers, the dependencies of all contributions are combined.
+	 *
+	 * @private
+	 * @param token - The token to analyze
+	 * @returns Array of dependency tokens (empty for unknown tokens)
+	 */
+	private getTokenDependencies(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+	): (InjectionToken | Constructor<any>)[] {
+		const contributions = this.getContributions(token)
+		if (contributions) {
+			return [
+				...new Set(
+					contributions.flatMap((contribution) =>
+						this.getProviderDependencies(contribution),
+					),
+				),
+			]
+		}
+		const provider = this.getProvider(token)
+		return provider ? this.getProviderDependencies(provider) : []
+	}
+
+	/**
+	 * Ensure a singleton does not capture a request-scoped instance
+	 *
+	 * Walks the direct dependencies of the token, following transient
+	 * providers (which are created as part of the singleton), and throws
+	 * if a request-scoped provider is reached. Lazy dependencies are allowed,
+	 * since a LazyRef looks the instance up in the active scope on access.
+	 *
+	 * @private
+	 * @param token - The singleton token about to be instantiated
+	 * @throws {ContainerError} If the singleton depends on a request-scoped provider
+	 */
+	private assertNoRequestScopedDependencies(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): void {
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const visited = new Set<InjectionToken | Constructor<any>>()
+		const findPath = (
+			// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+			current: InjectionToken | Constructor<any>,
+			// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		): (InjectionToken | Constructor<any>)[] | undefined => {
+			for (const dep of this.getTokenDependencies(current)) {
+				if (visited.has(dep)) continue
+				visited.add(dep)
+
+				const depScope = this.getScope(dep)
+				if (depScope === 'request') {
+					return [dep]
+				}
+				if (depScope === 'transient') {
+					const path = findPath(dep)
+					if (path) {
+						return [dep, ...path]
+					}
+				}
+			}
+			return undefined
+		}
+
+		const path = findPath(token)
+		if (path) {
+			const chain = [token, ...path].map((t) => this.getTokenName(t))
+			throw new ContainerError(
+				`Scope mismatch: singleton ${chain[0]} depends on request-scoped ${chain[chain.length - 1]}.\n` +
+					`Chain: ${chain.join(' -> ')}\n` +
+					`Make it request-scoped or inject the dependency with @Lazy().`,
+			)
+		}
+	}
+
+	/**
+	 * Get dependencies for a class constructor
+	 *
+	 * @private
+	 * @param target - The class constructor to analyze
+	 * @returns Array of dependency tokens
+	 */
+	private getClassDependencies(
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+		target: Constructor<any>,
+	): (InjectionToken | Constructor<unknown>)[] {
+		const {
+			paramTypes,
+			tokens,
+			optional: optionalParams,
+		} = getConstructorMetadata(target)
+		// biome-ignore lint/suspicious/noExplicitAny: Metadata can be of any type
+		const injectionTokens: any[] = tokens
+
+		const dependencies: (InjectionToken | Constructor<unknown>)[] = []
+
+		paramTypes.forEach((paramType, index) => {
+			const token = injectionTokens[index]
+			// Skip optional dependencies that are not provided
+			if (optionalParams[index] && !this.hasProvider(token || paramType)) {
+				return
+			}
+			if (token) {
+				// Skip both new @Lazy and old lazy() patterns for weight calculation
+				const isNewLazy = typeof token === 'object' && '__lazyToken' in token
+				const isOldLazy = token instanceof LazyRefMarker
+
+				if (!isNewLazy && !isOldLazy) {
+					dependencies.push(token as InjectionToken)
+				}
+			} else if (paramType) {
+				// Use parameter type
+				dependencies.push(paramType)
+			}
+		})
+
+		// Injected fields (lazy fields are skipped like lazy parameters)
+		for (const { token, optional } of getInjectedProperties(target)) {
+			if (
+				!token ||
+				(typeof token === 'object' && '__lazyToken' in token) ||
+				token instanceof LazyRefMarker
+			) {
+				continue
+			}
+			if (optional && !this.hasProvider(token as InjectionToken)) {
+				continue
+			}
+			dependencies.push(token as InjectionToken)
+		}
+
+		return dependencies
+	}
+
+	/**
+	 * Get all providers sorted by weight (lowest first)
+	 *
+	 * Returns providers in optimal resolution order.
+	 * Services with fewer dependencies (lower weight) come first.
+	 *
+	 * @returns Array of providers with their weights, sorted by weight ascending
+	 *
+	 * @example
+	 * const sorted = container.getProvidersByWeight()
+	 * sorted.forEach(({ token, weight }) => {
+	 *   console.log(`${token}: weight ${weight}`)
+	 * })
+	 */
+	public getProvidersByWeight(): Array<{
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>
+		weight: number
+	}> {
+		const result: Array<{
+			// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+			token: InjectionToken | Constructor<any>
+			weight: number
+		}> = []
+
+		for (const token of this.providers.keys()) {
+			const weight = this.calculateWeight(token)
+			result.push({ token, weight })
+		}
+
+		// Sort by weight (ascending)
+		result.sort((a, b) => a.weight - b.weight)
+
+		return result
 	}
 
 	/**
-	 * Set the logging level for the container
-	 *
-	 * Controls how much information the container logs during operation.
+	 * Resolve all providers in optimal order (by weight)
 	 *
-	 * @param level - The desired log level
+	 * Resolves all registered providers, starting with those that have fewer dependencies.
+	 * Lazy-referenced services are resolved last (lower priority).
+	 * Transient and request-scoped providers are not pre-instantiated.
+	 * This is useful for bulk initialization/bootstrapping.
+	 * Providers that fail are logged and skipped, unless `strict` is set: then all
+	 * failures are collected, the instances created by this call are destroyed in
+	 * reverse order and the promise rejects with a `BootstrapError`.
+	 * With `profile` set, per-token timings are available from `getBootstrapReport()`.
 	 *
-	 * @example
-	 * // Disable all logging
-	 * container.setLogLevel(LogLevel.OFF)
+	 * @param options - Resolution options
+	 * @returns A promise that resolves to a map of all resolved instances
+	 * @throws {BootstrapError} In strict mode, if any provider fails to resolve
 	 *
 	 * @example
-	 * // Only log important events
-	 * container.setLogLevel(LogLevel.MINIMAL)
+	 * await container.resolveAll()
+	 * console.log('All services initialized!')
 	 *
 	 * @example
-	 * // Log all details (default)
-	 * container.setLogLevel(LogLevel.VERBOSE)
+	 * // Fail instead of skipping providers that cannot be resolved
+	 * await container.resolveAll({ strict: true })
 	 */
-	public setLogLevel(level: LogLevel): void {
-		this.logLevel = level
+	public async resolveAll(options: ResolveAllOptions = {}): Promise<
+		// biome-ignore lint/suspicious/noExplicitAny: Can contain constructors and instances of any type
+		Map<InjectionToken | Constructor<any>, any>
+	> {
+		const startedAt = performance.now()
+		this.log(
+			'\n🔄 Resolving all providers in optimal order...\n',
+			LogLevel.MINIMAL,
+			{ event: 'resolveAll' },
+		)
+		if (options.profile) {
+			this.profiles = new Map()
+		}
+
+		const sorted = this.getProvidersByWeight()
+		// biome-ignore lint/suspicious/noExplicitAny: Lazy targets can be of any type
+		const lazyTargets = new Set<InjectionToken | Constructor<any>>()
+		const existing = new Set(this.instances.keys())
+		const failures: BootstrapFailure[] = []
+
+		// Collect all lazy-referenced targets
+		for (const [token, registered] of this.providers) {
+			const providers = this.multiProviders.get(token) ?? [registered]
+			for (const provider of providers) {
+				for (const target of this.getLazyDependencies(provider)) {
+					lazyTargets.add(target)
+				}
+			}
+		}
+
+		// First pass: resolve non-lazy services
+		// Transient and request-scoped providers are skipped, they are created on demand
+		for (const { token, weight } of sorted) {
+			if (this.getScope(token) !== 'singleton') {
+				continue
+			}
+			if (!this.instances.has(token) && !lazyTargets.has(token)) {
+				const tokenName = this.getTokenName(token)
+				this.log(
+					`[Weight ${weight}] Resolving: ${tokenName}`,
+					LogLevel.VERBOSE,
+					{
+						event: 'resolve',
+						token: tokenName,
+						weight,
+					},
+				)
+				try {
+					// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor or string/symbol
+					await this.resolve(token as any)
+					// biome-ignore lint/suspicious/noExplicitAny: Error can be of any type
+				} catch (error: any) {
+					this.log(`  ✗ Failed: ${error.message}`, LogLevel.VERBOSE, {
+						event: 'resolveFailed',
+						token: tokenName,
+						weight,
+						error,
+					})
+					failures.push(this.toBootstrapFailure(token, error))
+				}
+			}
+		}
+
+		// Second pass: resolve lazy-referenced services (low priority)
+		this.log('\nResolving lazy-referenced services (low priority)...\n')
+		for (const { token, weight } of sorted) {
+			if (this.getScope(token) !== 'singleton') {
+				continue
+			}
+			if (!this.instances.has(token) && lazyTargets.has(token)) {
+				const tokenName = this.getTokenName(token)
+				this.log(
+					`[Lazy, Weight ${weight}] Resolving: ${tokenName}`,
+					LogLevel.VERBOSE,
+					{ event: 'resolve', token: tokenName, weight, lazy: true },
+				)
+				try {
+					// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor or string/symbol
+					await this.resolve(token as any)
+					// biome-ignore lint/suspicious/noExplicitAny: Error can be of any type
+				} catch (error: any) {
+					this.log(`  ✗ Failed: ${error.message}`, LogLevel.VERBOSE, {
+						event: 'resolveFailed',
+						token: tokenName,
+						weight,
+						error,
+					})
+					failures.push(this.toBootstrapFailure(token, error))
+				}
+			}
+		}
+
+		this.finishProfiling(startedAt)
+
+		if (options.strict && failures.length > 0) {
+			// Roll back: destroy what this call created, most recent first
+			const created = Array.from(this.instances.keys()).filter(
+				(token) => !existing.has(token),
+			)
+			for (const token of created.reverse()) {
+				await this.destroyToken(token)
+				this.instances.delete(token)
+			}
+			throw new BootstrapError(failures)
+		}
+
+		this.log('\n✅ All providers resolved!\n', LogLevel.MINIMAL, {
+			event: 'resolveAll',
+			duration: performance.now() - startedAt,
+		})
+		return this.instances
 	}
 
 	/**
-	 * Get the current logging level
+	 * Get the timings of the last profiled `resolveAll()` or `bootstrap()`
 	 *
-	 * @returns The current log level
+	 * Profiling is enabled with the `profile` option. The report lists every
+	 * provider created during the call, slowest first, with its construction
+	 * and onInit times, weight and the dependencies it awaited.
+	 *
+	 * @returns The report, or undefined if nothing was profiled
 	 *
 	 * @example
-	 * const level = container.getLogLevel()
+	 * await container.bootstrap({ providers: [AppModule], profile: true })
+	 *
+	 * const report = container.getBootstrapReport()
+	 * console.log(report?.toTable())
+	 * // Token     Weight  Construction  Provider onInit  Instance onInit  Total     Dependencies
+	 * // Database  1       0.2ms         0.0ms            8012.4ms         8012.6ms  CONFIG
+	 * // ...
+	 *
+	 * @example
+	 * // Export for later analysis
+	 * writeFileSync('bootstrap.json', JSON.stringify(report))
 	 */
-	public getLogLevel(): LogLevel {
-		return this.logLevel
+	public getBootstrapReport(): BootstrapReport | undefined {
+		return this.bootstrapReport
 	}
 
 	/**
-	 * Log a message if the current log level allows it
+	 * Stop profiling and store the bootstrap report
 	 *
 	 * @private
-	 * @param message - The message to log
-	 * @param level - The minimum log level required to log this message
+	 * @param startedAt - When the profiled call started (from performance.now())
 	 */
-	private log(message: string, level: LogLevel = LogLevel.VERBOSE): void {
-		if (this.logLevel === LogLevel.OFF) {
-			return
-		}
-
-		if (level === LogLevel.MINIMAL && this.logLevel === LogLevel.MINIMAL) {
-			console.log(message)
+	private finishProfiling(startedAt: number): void {
+		if (!this.profiles) {
 			return
 		}
-
-		if (this.logLevel === LogLevel.VERBOSE) {
-			console.log(message)
-		}
+		const entries = Array.from(this.profiles.values()).sort(
+			(a, b) => b.total - a.total,
+		)
+		this.bootstrapReport = new BootstrapReport(
+			entries,
+			performance.now() - startedAt,
+		)
+		this.profiles = undefined
 	}
 
 	/**
-	 * Log an error message (always logged unless OFF)
+	 * Describe a provider that failed to resolve
 	 *
 	 * @private
-	 * @param message - The error message to log
+	 * @param token - The token that failed
+	 * @param error - The error thrown while resolving it
+	 * @returns The failure with the resolution path of the error
 	 */
-	private logError(message: string): void {
-		if (this.logLevel !== LogLevel.OFF) {
-			console.error(message)
+	private toBootstrapFailure(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		error: unknown,
+	): BootstrapFailure {
+		const path =
+			typeof error === 'object' && error !== null
+				? this.failurePaths.get(error)
+				: undefined
+		return {
+			token: this.getTokenName(token),
+			path: (path ?? [token]).map((t) => this.getTokenName(t)),
+			cause: error,
 		}
 	}
 
 	/**
-	 * Get the key for a provider
+	 * Bootstrap the container with a list of providers (NestJS-style)
 	 *
-	 * @private
-	 * @template T - The provider type
-	 * @param provider - The provider to get the key from
-	 * @returns The injection token or constructor used as the key
+	 * This is a convenient way to register and resolve multiple providers at once.
+	 * All providers are registered first, then resolved in optimal order.
+	 * Groups are automatically flattened during registration.
+	 * Before anything is instantiated, the dependency graph is validated (see `validate()`)
+	 * and all issues are reported at once. Pass `validate: false` to skip this step.
+	 * Pass `strict: true` to reject when a provider fails to resolve (see `resolveAll()`).
+	 * Pass `profile: true` to record per-token timings (see `getBootstrapReport()`).
+	 *
+	 * @param providersOrConfig - Array of providers or config object with providers
+	 * @returns The container instance (for chaining)
+	 * @throws {ValidationError} If validation finds missing providers, undefined parameter types or cycles
+	 * @throws {BootstrapError} In strict mode, if any provider fails to resolve
+	 *
+	 * @example
+	 * // Simple usage with array
+	 * await container.bootstrap([
+	 *   ServiceA,
+	 *   ServiceB,
+	 *   { provide: 'CONFIG', useValue: { port: 3000 } }
+	 * ])
+	 *
+	 * @example
+	 * // With configuration object
+	 * await container.bootstrap({
+	 *   providers: [UserService, DatabaseService, AuthService]
+	 * })
+	 *
+	 * @example
+	 * // With groups
+	 * await container.bootstrap([
+	 *   ConfigModule,  // Group gets flattened
+	 *   AuthModule,    // Group gets flattened
+	 *   AppService
+	 * ])
+	 *
+	 * @example
+	 * // With dynamic groups
+	 * await container.bootstrap([
+	 *   DatabaseModule.forRoot({ url: 'postgres://localhost/app' }),
+	 *   AppService
+	 * ])
+	 *
+	 * @example
+	 * // Without the validation pre-flight
+	 * await container.bootstrap({ providers: [AppService], validate: false })
+	 *
+	 * @example
+	 * // Reject (after cleaning up) if any provider fails, e.g. in an onInit hook
+	 * await container.bootstrap({ providers: [AppService], strict: true })
 	 */
-	private getProviderKey<T = unknown>(
-		provider: Provider<T>,
-	): InjectionToken | Constructor<unknown> {
+	public async bootstrap(
+		providersOrConfig: ProviderOrGroup[] | BootstrapOptions,
+	): Promise<this> {
+		const startedAt = performance.now()
+		this.log('\n🚀 Bootstrapping container...\n', LogLevel.MINIMAL, {
+			event: 'bootstrap',
+		})
+
+		// Handle both array and object format
+		const providers = Array.isArray(providersOrConfig)
+			? providersOrConfig
+			: providersOrConfig.providers
+
+		// Flatten groups in the providers array
+		this.log('Flattening groups...')
+		const flattenedProviders = this.flattenProviders(providers)
+		this.log(
+			`Flattened ${providers.length} items into ${flattenedProviders.length} providers\n`,
+		)
+
+		// Register all providers
+		for (const provider of flattenedProviders) {
+			this.register(provider)
+		}
+		this.collectGroupMembership(providers)
+		this.registerMocks()
+
+		// Validate the whole graph before any constructor or onInit hook runs
 		if (
-			this.isClassProvider(provider) ||
-			this.isValueProvider(provider) ||
-			this.isFactoryProvider(provider)
+			Array.isArray(providersOrConfig) ||
+			providersOrConfig.validate !== false
 		) {
-			return provider.provide
+			this.log('Validating dependency graph...')
+			const { valid, issues } = this.validate()
+			if (!valid) {
+				throw new ValidationError(issues)
+			}
 		}
-		// Plain class constructor
-		return provider as Constructor<T>
+
+		// Resolve all providers
+		await this.resolveAll(
+			Array.isArray(providersOrConfig)
+				? {}
+				: {
+						strict: providersOrConfig.strict,
+						profile: providersOrConfig.profile,
+					},
+		)
+
+		this.log('🎉 Container bootstrapped successfully!\n', LogLevel.MINIMAL, {
+			event: 'bootstrap',
+			duration: performance.now() - startedAt,
+		})
+		return this
 	}
 
 	/**
-	 * Register a provider with the container
-	 *
-	 * Stores the provider configuration for later resolution.
-	 * Value providers are cached immediately.
-	 *
-	 * @template T - The type of instance to provide
-	 * @param provider - The provider configuration
+	 * Get dependency graph for visualization/debugging
 	 *
-	 * @example
-	 * // Register a class
-	 * container.register(MyService)
+	 * Returns a map showing each provider's weight, scope and its direct dependencies.
+	 * For multi providers, `contributions` counts the registered contributions and
+	 * `dependencies` combines the dependencies of all of them.
+	 * For alias (`useExisting`) providers, `aliasOf` names the target token,
+	 * which is also their only dependency.
+	 * Useful for understanding the dependency structure or generating visualizations.
 	 *
-	 * @example
-	 * // Register with token
-	 * container.register({ provide: 'CONFIG', useValue: config })
+	 * @returns Map of service names to their dependency information
 	 *
 	 * @example
-	 * // Register with factory
-	 * container.register({
-	 *   provide: 'DB',
-	 *   useFactory: (config) => new Database(config),
-	 *   deps: ['CONFIG']
+	 * const graph = container.getDependencyGraph()
+	 * graph.forEach((info, name) => {
+	 *   console.log(`${name} (weight ${info.weight}, ${info.scope}):`, info.dependencies)
 	 * })
 	 */
-	public register<T = unknown>(provider: Provider<T>): void {
-		const key = this.getProviderKey(provider)
-
-		if (this.isClassProvider(provider)) {
-			this.log(`Registering class provider: ${String(key)}`)
-			// Store onDestroy hook if provided
-			if (provider.onDestroy) {
-				// biome-ignore lint/suspicious/noExplicitAny: Need to cast for type compatibility
-				const onDestroyFn = provider.onDestroy as any
-				this.providerMetadata.set(key, {
-					// @ts-expect-error - Provider<T> and Provider<unknown> type mismatch
-					provider,
-					onDestroy: onDestroyFn,
-				})
+	public getDependencyGraph(): Map<
+		string,
+		{
+			weight: number
+			scope: ProviderScope
+			contributions: number
+			dependencies: string[]
+			aliasOf?: string
+		}
+	> {
+		const graph = new Map<
+			string,
+			{
+				weight: number
+				scope: ProviderScope
+				contributions: number
+				dependencies: string[]
+				aliasOf?: string
 			}
-		} else if (this.isValueProvider(provider)) {
-			this.log(`Registering value provider: ${String(key)}`)
-			this.instances.set(key, provider.useValue)
-		} else if (this.isFactoryProvider(provider)) {
-			this.log(`Registering factory provider: ${String(key)}`)
-			// Store onDestroy hook if provided
-			if (provider.onDestroy) {
-				// biome-ignore lint/suspicious/noExplicitAny: Need to cast for type compatibility
-				const onDestroyFn = provider.onDestroy as any
-				this.providerMetadata.set(key, {
-					// @ts-expect-error - Provider<T> and Provider<unknown> type mismatch
-					provider,
-					onDestroy: onDestroyFn,
-				})
+		>()
+
+		for (const [token, registered] of this.providers) {
+			const tokenName = this.getTokenName(token)
+			const weight = this.calculateWeight(token)
+			const scope = this.getScope(token)
+			const providers = this.multiProviders.get(token) ?? [registered]
+			const dependencies: string[] = []
+
+			for (const provider of providers) {
+				if (this.isValueProvider(provider)) continue
+				if (this.isExistingProvider(provider)) {
+					dependencies.push(this.getTokenName(provider.useExisting))
+				} else if (this.isFactoryProvider(provider)) {
+					const deps = this.getFactoryDependencyTokens(provider.deps || [])
+					dependencies.push(...deps.map((d) => this.getTokenName(d)))
+				} else if (this.isClassProvider(provider)) {
+					const deps = this.getClassDependencies(provider.useClass)
+					dependencies.push(...deps.map((d) => this.getTokenName(d)))
+				} else {
+					// biome-ignore lint/suspicious/noExplicitAny: Provider is a constructor of any type
+					const deps = this.getClassDependencies(provider as Constructor<any>)
+					dependencies.push(...deps.map((d) => this.getTokenName(d)))
+				}
 			}
-		} else {
-			this.log(`Registering class: ${key.toString()}`)
+
+			graph.set(tokenName, {
+				weight,
+				scope,
+				contributions: providers.length,
+				dependencies: [...new Set(dependencies)],
+				...(this.isExistingProvider(registered)
+					? { aliasOf: this.getTokenName(registered.useExisting) }
+					: {}),
+			})
 		}
 
-		// @ts-expect-error - Provider<unknown> doesn't match Provider<T>
-		this.providers.set(key, provider)
+		return graph
 	}
 
 	/**
-	 * Get an already-resolved instance synchronously
+	 * Export the dependency graph as Mermaid, Graphviz DOT or JSON
 	 *
-	 * Returns the cached instance if it has been resolved, otherwise returns undefined.
-	 * Use this when you're not sure if an instance has been resolved yet.
+	 * Unlike `getDependencyGraph()`, nodes are identified by token rather than
+	 * by name, so symbols and classes with the same name stay distinct. Every node
+	 * carries its provider kind, scope and group (as recorded by `bootstrap()`).
+	 * Lazy dependencies are drawn dashed and circular dependencies in red.
 	 *
-	 * @template T - The type of instance to get
-	 * @param token - The injection token or class constructor
-	 * @returns The resolved instance or undefined if not yet resolved
+	 * @param options - Export options
+	 * @returns The graph in the requested format
 	 *
 	 * @example
-	 * const instance = container.getInstance(MyService)
-	 * if (instance) {
-	 *   instance.doSomething()
-	 * }
-	 */
-	public getInstance<T = unknown>(
-		token: InjectionToken<T> | Constructor<T>,
-	): T | undefined {
-		return this.instances.get(token) as T | undefined
-	}
-
-	/**
-	 * Get an already-resolved instance synchronously
-	 *
-	 * Returns the cached instance if it has been resolved, throws an error otherwise.
-	 * Use this when you expect the instance to already be resolved.
+	 * // Paste into a Markdown file between ```mermaid fences
+	 * console.log(container.exportGraph({ format: 'mermaid' }))
 	 *
-	 * @template T - The type of instance to get
-	 * @param token - The injection token or class constructor
-	 * @returns The resolved instance
-	 * @throws {Error} If the instance has not been resolved yet
+	 * @example
+	 * // Render with Graphviz: dot -Tsvg deps.dot -o deps.svg
+	 * writeFileSync('deps.dot', container.exportGraph({ format: 'dot' }))
 	 *
 	 * @example
-	 * const instance = container.getInstanceOrThrow(MyService)
-	 * instance.doSomething()
+	 * const graph: GraphExport = JSON.parse(container.exportGraph({ format: 'json' }))
 	 */
-	public getInstanceOrThrow<T = unknown>(
-		token: InjectionToken<T> | Constructor<T>,
-	): T {
-		if (!this.instances.has(token)) {
-			throw new Error(`Instance not resolved yet: ${this.getTokenName(token)}`)
+	public exportGraph(options: ExportGraphOptions = {}): string {
+		const graph = this.buildGraphExport()
+		switch (options.format ?? 'mermaid') {
+			case 'dot':
+				return renderDotGraph(graph)
+			case 'json':
+				return JSON.stringify(graph, null, 2)
+			default:
+				return renderMermaidGraph(graph)
 		}
-		return this.instances.get(token) as T
 	}
 
 	/**
-	 * Get the instances map (for advanced usage)
-	 *
-	 * Returns a read-only view of all resolved instances in the container.
+	 * Get the direct dependencies of a token, lazy ones included
 	 *
-	 * @returns Read-only map of all cached instances
+	 * Unregistered classes are followed like `resolve()` does, since they are
+	 * instantiated on demand.
 	 *
-	 * @example
-	 * const instances = container.getInstancesMap()
-	 * console.log(`Resolved ${instances.size} instances`)
+	 * @private
+	 * @param token - A registered token or an unregistered class
+	 * @returns The dependencies, with `lazy` set for `@Lazy()` and `lazy()` references
 	 */
-	public getInstancesMap(): ReadonlyMap<
-		InjectionToken | Constructor<unknown>,
-		unknown
-	> {
-		return this.instances
+	private getDependencyTargets(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	): { token: InjectionToken | Constructor<any>; lazy: boolean }[] {
+		const providers =
+			this.getContributions(token) ??
+			[this.getProvider(token)].filter((provider) => provider !== undefined)
+		const targets = [
+			...this.getTokenDependencies(token).map((dep) => ({
+				token: dep,
+				lazy: false,
+			})),
+			...providers.flatMap((provider) =>
+				this.getLazyDependencies(provider).map((dep) => ({
+					token: dep,
+					lazy: true,
+				})),
+			),
+		]
+		if (providers.length === 0 && typeof token === 'function') {
+			// Unregistered class, instantiated on demand
+			targets.push(
+				...this.getClassDependencies(token).map((dep) => ({
+					token: dep,
+					lazy: false,
+				})),
+			)
+		}
+		return targets
 	}
 
 	/**
-	 * Get the providers map (for advanced usage)
+	 * Build the nodes, edges and cycles of the dependency graph
 	 *
-	 * Returns a read-only view of all registered providers in the container.
-	 *
-	 * @returns Read-only map of all registered providers
-	 *
-	 * @example
-	 * const providers = container.getProvidersMap()
-	 * console.log(`Registered ${providers.size} providers`)
+	 * @private
+	 * @returns The graph of the registered tokens and their dependencies
 	 */
-	public getProvidersMap(): ReadonlyMap<
-		InjectionToken | Constructor<unknown>,
-		Provider<unknown>
-	> {
-		return this.providers
+	private buildGraphExport(): GraphExport {
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		type AnyToken = InjectionToken | Constructor<any>
+		const ids = new Map<AnyToken, string>()
+		const tokens: AnyToken[] = []
+		const getId = (token: AnyToken) => {
+			let id = ids.get(token)
+			if (!id) {
+				id = `n${ids.size}`
+				ids.set(token, id)
+				tokens.push(token)
+			}
+			return id
+		}
+
+		// Dependencies of every registered token, following unregistered dependencies too
+		const dependencies = new Map<
+			AnyToken,
+			{ token: AnyToken; lazy: boolean }[]
+		>()
+		const visit = (token: AnyToken) => {
+			if (dependencies.has(token)) return
+			getId(token)
+			const edges = this.getDependencyTargets(token)
+			dependencies.set(token, edges)
+			for (const edge of edges) {
+				visit(edge.token)
+			}
+		}
+		for (const token of this.providers.keys()) {
+			visit(token)
+		}
+
+		// Tokens that reach each other through non-lazy edges form a cycle
+		const reachable = new Map<AnyToken, Set<AnyToken>>()
+		for (const token of tokens) {
+			const seen = new Set<AnyToken>()
+			const queue = [token]
+			while (queue.length > 0) {
+				const current = queue.shift() as AnyToken
+				for (const edge of dependencies.get(current) ?? []) {
+					if (!edge.lazy && !seen.has(edge.token)) {
+						seen.add(edge.token)
+						queue.push(edge.token)
+					}
+				}
+			}
+			reachable.set(token, seen)
+		}
+		const inCycle = (from: AnyToken, to: AnyToken) =>
+			reachable.get(from)?.has(to) === true &&
+			reachable.get(to)?.has(from) === true
+
+		const cycles: string[][] = []
+		const assigned = new Set<AnyToken>()
+		for (const token of tokens) {
+			if (assigned.has(token) || !inCycle(token, token)) continue
+			const members = tokens.filter((other) => inCycle(token, other))
+			for (const member of members) assigned.add(member)
+			cycles.push(members.map((member) => this.getTokenName(member)))
+		}
+
+		const nodes = tokens.map((token): GraphNode => {
+			const provider = this.getProvider(token)
+			const group = this.getGroupOwner(token)
+			return {
+				id: getId(token),
+				token: this.getTokenName(token),
+				kind: this.getProviderKind(provider),
+				scope: this.getScope(token),
+				...(group ? { group: group.name } : {}),
+				multi: this.getContributions(token) !== undefined,
+				missing: !provider && typeof token !== 'function',
+				cycle: assigned.has(token),
+			}
+		})
+		const edges = tokens.flatMap((token) =>
+			(dependencies.get(token) ?? []).map(
+				(edge): GraphEdge => ({
+					from: getId(token),
+					to: getId(edge.token),
+					lazy: edge.lazy,
+					cycle: !edge.lazy && inCycle(token, edge.token),
+				}),
+			),
+		)
+
+		return { nodes, edges, cycles }
 	}
 
+	// ============================================================================
+	// Validation
+	// ============================================================================
+
 	/**
-	 * Resolve a dependency by token or class
+	 * Validate the dependency graph without instantiating anything
 	 *
-	 * Resolves the dependency and all its transitive dependencies.
-	 * The result is cached for subsequent calls.
-	 * Detects circular dependencies and throws an error if found.
+	 * Walks the dependencies of every registered provider (constructor parameters,
+	 * injected fields, factory `deps` and alias targets) and reports, all at once:
+	 * - dependencies without a provider
+	 * - constructor parameters whose type is undefined (usually a circular import)
+	 *   and injected fields without a token
+	 * - circular dependencies that are not broken with `@Lazy()`
+	 * - dependencies hidden by group encapsulation (including lazy ones)
 	 *
-	 * @template T - The type of instance to resolve
-	 * @param token - The injection token or class constructor to resolve
-	 * @param skipCircularCheck - Internal flag to skip circular dependency detection
-	 * @returns A promise that resolves to the instance
-	 * @throws {Error} If circular dependency is detected or provider is not found
+	 * Unregistered classes are followed like `resolve()` does, since they are
+	 * instantiated on demand. Missing optional dependencies are not reported.
 	 *
-	 * @example
-	 * const service = await container.resolve(MyService)
+	 * @param tokens - Only validate these tokens and their dependencies (default: all registered tokens)
+	 * @returns The validation result with every issue and its dependency path
 	 *
 	 * @example
-	 * const config = await container.resolve('CONFIG')
+	 * const { valid, issues } = container.validate()
+	 * if (!valid) {
+	 *   for (const issue of issues) {
+	 *     console.error(`${issue.message}\n  Path: ${issue.path.join(' -> ')}`)
+	 *   }
+	 * }
 	 */
-	public resolve<T = unknown>(
-		ctor: Constructor<T>,
-		skipCircularCheck?: boolean,
-	): Promise<T>
-	public resolve<T = unknown>(
-		token: InjectionToken<T>,
-		skipCircularCheck?: boolean,
-	): Promise<T>
-	public async resolve<T = unknown>(
-		token: InjectionToken<T> | Constructor<T>,
-		skipCircularCheck = false,
-	): Promise<T> {
-		this.log(`Resolving: ${this.getTokenName(token)}`)
-
-		// Check if already instantiated
-		if (this.instances.has(token)) {
-			this.log(`  -> Returning cached instance`)
-			return this.instances.get(token) as T
-		}
-
-		// Detect circular dependencies (skip for lazy references)
-		if (!skipCircularCheck && this.resolutionStack.has(token)) {
-			const chain = Array.from(this.resolutionStack)
-				.map((t) => this.getTokenName(t))
-				.join(' -> ')
-			throw new Error(
-				`Circular dependency detected!\n` +
-					`Chain: ${chain} -> ${this.getTokenName(token)}`,
-			)
-		}
+	public validate(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		tokens: (InjectionToken | Constructor<any>)[] = Array.from(
+			this.providers.keys(),
+		),
+	): ValidationResult {
+		const issues: ValidationIssue[] = []
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const visited = new Set<InjectionToken | Constructor<any>>()
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const path: (InjectionToken | Constructor<any>)[] = []
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const names = (tokens: (InjectionToken | Constructor<any>)[]) =>
+			tokens.map((t) => this.getTokenName(t))
 
-		// Only track in resolution stack if not skipping circular check
-		if (!skipCircularCheck) {
-			this.resolutionStack.add(token)
+		const checkGroupAccess = (
+			// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+			consumer: InjectionToken | Constructor<any>,
+			// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+			dependency: InjectionToken | Constructor<any>,
+		) => {
+			try {
+				this.assertGroupAccess(consumer, dependency)
+			} catch (error) {
+				if (!(error instanceof ContainerError)) throw error
+				issues.push({
+					type: 'group-access',
+					token: this.getTokenName(dependency),
+					path: names([...path, dependency]),
+					message: error.message,
+				})
+			}
 		}
 
-		try {
-			const provider = this.providers.get(token)
-
-			if (!provider) {
-				// If it's a class constructor and not registered, try to instantiate it
-				if (typeof token === 'function') {
-					return this.instantiateClass(token as Constructor<T>)
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const visit = (token: InjectionToken | Constructor<any>) => {
+			visited.add(token)
+			path.push(token)
+
+			for (const target of this.getValidatedClasses(token)) {
+				const { paramTypes, tokens, optional } = getConstructorMetadata(target)
+				for (let index = 0; index < paramTypes.length; index++) {
+					if (paramTypes[index] || tokens[index] || optional[index]) continue
+					issues.push({
+						type: 'undefined-parameter-type',
+						token: target.name,
+						path: names(path),
+						parameterIndex: index,
+						message:
+							`Parameter at index ${index} of ${target.name} has an undefined type. ` +
+							`This usually comes from a circular import. Use @Inject decorator to specify a token.`,
+					})
+				}
+				for (const property of getInjectedProperties(target)) {
+					if (property.token || property.optional) continue
+					issues.push({
+						type: 'undefined-parameter-type',
+						token: target.name,
+						path: names(path),
+						propertyKey: property.key,
+						message:
+							`Property ${String(property.key)} of ${target.name} has no token. ` +
+							`Use @Inject decorator to specify a token.`,
+					})
 				}
-				throw new Error(`No provider found for token: ${String(token)}`)
 			}
 
-			let instance: T | unknown
+			const lazyDeps = this.getValidatedClasses(token).flatMap((target) =>
+				this.getLazyDependencies(target),
+			)
+			for (const dep of new Set([
+				...this.getValidatedDependencies(token),
+				...lazyDeps,
+			])) {
+				checkGroupAccess(token, dep)
+			}
 
-			if (this.isClassProvider(provider)) {
-				instance = await this.instantiateClass(provider.useClass)
-				// Call provider-level onInit lifecycle hook if provided
-				if (provider.onInit) {
-					this.log(
-						`  -> Calling provider onInit for: ${this.getTokenName(token)}`,
-					)
-					await provider.onInit(instance)
-				}
-				// Call instance-level onInit method if it implements OnInit
-				if (this.hasOnInit(instance)) {
-					this.log(
-						`  -> Calling instance onInit for: ${this.getTokenName(token)}`,
-					)
-					await instance.onInit()
-				}
-			} else if (this.isValueProvider(provider)) {
-				instance = provider.useValue
-			} else if (this.isFactoryProvider(provider)) {
-				instance = await this.instantiateFactory(provider)
-				// Call provider-level onInit lifecycle hook if provided
-				if (provider.onInit) {
-					this.log(
-						`  -> Calling provider onInit for: ${this.getTokenName(token)}`,
-					)
-					await provider.onInit(instance)
+			for (const dep of this.getValidatedDependencies(token)) {
+				if (path.includes(dep)) {
+					const cycle = names([...path.slice(path.indexOf(dep)), dep])
+					issues.push({
+						type: 'circular-dependency',
+						token: this.getTokenName(dep),
+						path: cycle,
+						message: `Circular dependency detected: ${cycle.join(' -> ')}`,
+					})
+					continue
 				}
-				// Call instance-level onInit method if it implements OnInit
-				if (this.hasOnInit(instance)) {
-					this.log(
-						`  -> Calling instance onInit for: ${this.getTokenName(token)}`,
-					)
-					await instance.onInit()
+				if (!this.hasProvider(dep) && typeof dep !== 'function') {
+					issues.push({
+						type: 'missing-provider',
+						token: this.getTokenName(dep),
+						path: names([...path, dep]),
+						message:
+							`No provider found for token: ${this.getTokenName(dep)} ` +
+							`(required by ${this.getTokenName(token)})`,
+					})
+					continue
 				}
-			} else {
-				// Plain class constructor
-				instance = await this.instantiateClass(provider as Constructor<T>)
-				// Call instance-level onInit method if it implements OnInit
-				if (this.hasOnInit(instance)) {
-					this.log(
-						`  -> Calling instance onInit for: ${this.getTokenName(token)}`,
-					)
-					await instance.onInit()
+				if (!visited.has(dep)) {
+					visit(dep)
 				}
 			}
 
-			this.instances.set(token, instance)
-			return instance as T
-		} finally {
-			// Only remove from stack if we added it
-			if (!skipCircularCheck) {
-				this.resolutionStack.delete(token)
+			path.pop()
+		}
+
+		for (const token of tokens) {
+			if (!visited.has(token)) {
+				visit(token)
 			}
 		}
+
+		return { valid: issues.length === 0, issues }
 	}
 
 	/**
-	 * Instantiate a class by resolving its dependencies
+	 * Get the dependencies of a token as resolve() would follow them
 	 *
 	 * @private
-	 * @template T - The type of instance to create
-	 * @param target - The class constructor to instantiate
-	 * @returns A promise that resolves to the new instance
+	 * @param token - A registered token or an unregistered class
+	 * @returns The direct (non-lazy) dependencies
 	 */
-	private async instantiateClass<T = unknown>(
-		target: Constructor<T>,
-	): Promise<T> {
-		this.log(`  -> Instantiating class: ${target.name}`)
+	private getValidatedDependencies(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	): (InjectionToken | Constructor<any>)[] {
+		if (this.hasProvider(token)) {
+			return this.getTokenDependencies(token)
+		}
+		// Unregistered classes are instantiated on demand
+		return typeof token === 'function' ? this.getClassDependencies(token) : []
+	}
 
-		// Get injection tokens if specified via @Inject decorator
-		const injectionTokens: unknown[] =
-			Reflect.getMetadata('inject:tokens', target) || []
+	/**
+	 * Get the classes instantiated for a token
+	 *
+	 * @private
+	 * @param token - A registered token or an unregistered class
+	 * @returns The classes whose constructors run when the token is resolved
+	 */
+	private getValidatedClasses(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+	): Constructor<any>[] {
+		const provider = this.getProvider(token)
+		if (!provider) {
+			return typeof token === 'function' ? [token] : []
+		}
+		const providers = this.getContributions(token) ?? [provider]
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+		const classes: Constructor<any>[] = []
+		for (const candidate of providers) {
+			if (this.isClassProvider(candidate)) {
+				classes.push(candidate.useClass)
+			} else if (typeof candidate === 'function') {
+				classes.push(candidate)
+			}
+		}
+		return classes
+	}
 
-		// Get constructor parameter types
-		const paramTypes: Constructor<unknown>[] =
-			Reflect.getMetadata('design:paramtypes', target) || []
+	// ============================================================================
+	// Type Guards and Helper Methods
+	// ============================================================================
 
-		// Resolve dependencies SEQUENTIALLY to avoid false circular dependency errors
-		// when multiple parameters depend on the same service
-		const dependencies: unknown[] = []
-		for (let index = 0; index < paramTypes.length; index++) {
-			const paramType = paramTypes[index]
-			const token = injectionTokens[index]
+	/**
+	 * Flatten groups in a providers array
+	 *
+	 * Recursively expands any groups (static or dynamic) found in the providers array.
+	 * Groups are expanded to their imported groups and constituent providers.
+	 * A group is only expanded once, even if several dynamic groups configure it.
+	 *
+	 * @private
+	 * @param providers - Array of providers that may contain groups
+	 * @returns Flattened array of providers with groups expanded
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: Providers can be of any type
+	private flattenProviders(providers: ProviderOrGroup[]): Provider<any>[] {
+		// biome-ignore lint/suspicious/noExplicitAny: Providers can be of any type
+		const result: Provider<any>[] = []
+		const visited = new Set<Constructor<unknown>>()
 
-			if (token) {
-				// Check if it's the new @Lazy decorator pattern
-				if (token && typeof token === 'object' && '__lazyToken' in token) {
-					this.log(`    -> Creating LazyRef wrapper`)
-					// @ts-expect-error - token.__lazyToken is unknown but we know it's an InjectionToken
-					dependencies.push(new LazyRef(this, token.__lazyToken))
-					continue
-				}
+		const flatten = (items: ProviderOrGroup[]) => {
+			for (const item of items) {
+				// Check if it's a group (plain constructor with @Group decorator or dynamic group)
+				if (isGroup(item) || isDynamicGroup(item)) {
+					const groupClass = isDynamicGroup(item) ? item.group : item
+					// Prevent infinite recursion
+					if (visited.has(groupClass)) {
+						continue
+					}
+					visited.add(groupClass)
 
-				// Check if it's the old lazy() function pattern (LazyRefMarker)
-				if (token instanceof LazyRefMarker) {
-					this.log(`    -> Creating LazyRef wrapper (old style)`)
-					const actualClass = token.ref()
-					dependencies.push(new LazyRef(this, actualClass))
-					continue
+					const groupMeta = this.getGroupDefinition(item)
+					// Imported groups are registered before the group's own providers
+					if (groupMeta?.imports && groupMeta.imports.length > 0) {
+						flatten(groupMeta.imports)
+					}
+					if (groupMeta?.providers && groupMeta.providers.length > 0) {
+						// Recursively flatten nested groups
+						flatten(groupMeta.providers)
+					}
+				} else {
+					// Regular provider, add it
+					result.push(item)
 				}
-
-				this.log(`    -> Resolving @Inject token: ${String(token)}`)
-				dependencies.push(await this.resolve(token as InjectionToken))
-				continue
-			}
-
-			// Otherwise, use the parameter type
-			if (paramType) {
-				this.log(`    -> Resolving parameter type: ${paramType.name}`)
-				dependencies.push(await this.resolve(paramType))
-				continue
 			}
-
-			throw new Error(
-				`Cannot resolve dependency at index ${index} for ${target.name}. ` +
-					`Use @Inject decorator to specify a token.`,
-			)
 		}
 
-		const instance = new target(...dependencies)
-		this.log(`  -> Created instance of ${target.name}`)
-		return instance
+		flatten(providers)
+		return result
 	}
 
 	/**
-	 * Instantiate using a factory function
+	 * Record which group each provider belongs to
+	 *
+	 * Walks groups (including nested and imported ones) and maps each
+	 * provider token to the innermost group that lists it.
+	 * A provider listed by several groups belongs to the first one found.
 	 *
 	 * @private
-	 * @template T - The type of instance to create
-	 * @param provider - The factory provider configuration
-	 * @returns A promise that resolves to the new instance
+	 * @param providers - Array of providers that may contain groups
 	 */
-	private async instantiateFactory<T>(
-		provider: FactoryProvider<T>,
-	): Promise<T> {
-		this.log(`  -> Calling factory for: ${String(provider.provide)}`)
+	private collectGroupMembership(providers: ProviderOrGroup[]): void {
+		const visited = new Set<Constructor<unknown>>()
 
-		// Resolve dependencies sequentially
-		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
-		const deps: any[] = []
-		for (const dep of provider.deps || []) {
-			deps.push(await this.resolve(dep))
+		const collect = (
+			items: ProviderOrGroup[],
+			owner?: Constructor<unknown>,
+		) => {
+			for (const item of items) {
+				if (isGroup(item) || isDynamicGroup(item)) {
+					const groupClass = isDynamicGroup(item) ? item.group : item
+					if (visited.has(groupClass)) {
+						continue
+					}
+					visited.add(groupClass)
+
+					if (isDynamicGroup(item)) {
+						this.dynamicGroups.set(groupClass, item)
+					}
+					const groupMeta = this.getGroupDefinition(item)
+					collect(groupMeta.imports ?? [])
+					collect(groupMeta.providers ?? [], groupClass)
+				} else if (owner) {
+					const token = this.getProviderKey(item)
+					if (!this.groupMembership.has(token)) {
+						this.groupMembership.set(token, owner)
+					}
+				}
+			}
 		}
-		const instance = await provider.useFactory(...deps)
-		return instance
-	}
 
-	// ============================================================================
-	// Dependency Weight Calculation
-	// ============================================================================
+		collect(providers)
+	}
 
 	/**
-	 * Calculate the dependency weight for a token
-	 *
-	 * Weight represents the depth of the dependency tree.
-	 * Higher weight = more dependencies = should be resolved later.
-	 * Value providers and services with no dependencies have weight 0.
+	 * Get the effective options of a group
 	 *
-	 * @param token - The injection token or class to calculate weight for
-	 * @returns The dependency weight (0 or higher)
+	 * Merges the @Group metadata with the configuration of a dynamic group,
+	 * either given directly or registered for the group class.
 	 *
-	 * @example
-	 * const weight = container.calculateWeight(MyService)
-	 * console.log(`MyService has weight ${weight}`)
+	 * @private
+	 * @param item - A group class or dynamic group
+	 * @returns The merged group options
 	 */
-	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
-	public calculateWeight(token: InjectionToken | Constructor<any>): number {
-		// Check cache first
-		if (this.weightCache.has(token)) {
-			// biome-ignore lint/style/noNonNullAssertion: We know the value exists from the has() check
-			return this.weightCache.get(token)!
+	private getGroupDefinition(
+		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+		item: Constructor<any> | DynamicGroup,
+	): GroupOptions {
+		const groupClass = isDynamicGroup(item) ? item.group : item
+		const override = this.groupOverrides.get(groupClass)
+		if (override) {
+			return override
 		}
+		const dynamic = isDynamicGroup(item)
+			? item
+			: this.dynamicGroups.get(groupClass)
+		const groupMeta = getGroupMetadata(groupClass) ?? {}
 
-		// Value providers have weight 0 (no dependencies)
-		const provider = this.providers.get(token)
-		if (!provider || this.isValueProvider(provider)) {
-			this.weightCache.set(token, 0)
-			return 0
+		if (!dynamic) {
+			return groupMeta
 		}
 
-		// Track visited nodes to detect cycles
-		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
-		const visited = new Set<InjectionToken | Constructor<any>>()
-		const weight = this.calculateWeightRecursive(token, visited)
-		this.weightCache.set(token, weight)
-		return weight
+		const exports =
+			groupMeta.exports || dynamic.exports
+				? [...(groupMeta.exports ?? []), ...(dynamic.exports ?? [])]
+				: undefined
+		return {
+			...groupMeta,
+			providers: [...(groupMeta.providers ?? []), ...(dynamic.providers ?? [])],
+			imports: [...(groupMeta.imports ?? []), ...(dynamic.imports ?? [])],
+			exports,
+		}
 	}
 
 	/**
-	 * Recursive helper for weight calculation
+	 * Get the group a provider token was registered from
 	 *
 	 * @private
-	 * @param token - The token to calculate weight for
-	 * @param visited - Set of already visited tokens (to detect cycles)
-	 * @returns The calculated weight
+	 * @param token - The injection token
+	 * @returns The owning group or undefined for ungrouped providers
 	 */
-	private calculateWeightRecursive(
-		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
+	private getGroupOwner(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
 		token: InjectionToken | Constructor<any>,
-		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
-		visited: Set<InjectionToken | Constructor<any>>,
-	): number {
-		// Circular dependency or already visited
-		if (visited.has(token)) {
-			return 0
+	): Constructor<unknown> | undefined {
+		if (this.providers.has(token)) {
+			return this.groupMembership.get(token)
 		}
+		return this.parent?.getGroupOwner(token)
+	}
 
-		visited.add(token)
-
-		const provider = this.providers.get(token)
-		if (!provider) {
-			return 0
+	/**
+	 * Ensure a consumer may inject a dependency under group encapsulation rules
+	 *
+	 * Only groups declaring `exports` are encapsulated:
+	 * - Non-exported providers can only be injected inside their own group
+	 * - Exported providers can be injected by ungrouped providers, by groups
+	 *   that import the owning group and by groups that list it in `providers`
+	 *
+	 * @private
+	 * @param consumer - The token being instantiated
+	 * @param dependency - The token it wants to inject
+	 * @throws {ContainerError} If the dependency is not visible to the consumer
+	 */
+	private assertGroupAccess(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		consumer: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		dependency: InjectionToken | Constructor<any>,
+	): void {
+		const dependencyGroup = this.getGroupOwner(dependency)
+		if (!dependencyGroup) {
+			return
 		}
 
-		// Value providers have no dependencies
-		if (this.isValueProvider(provider)) {
-			return 0
+		const exports = this.getGroupDefinition(dependencyGroup).exports
+		if (!exports) {
+			return
 		}
 
-		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
-		let deps: (InjectionToken | Constructor<any>)[] = []
-
-		// Get dependencies based on provider type
-		if (this.isFactoryProvider(provider)) {
-			// Factory provider: use explicit deps (flatten groups)
-			deps = provider.deps ? this.flattenDeps(provider.deps) : []
-		} else if (this.isClassProvider(provider)) {
-			// Class provider: merge explicit deps with constructor dependencies
-			const explicitDeps = provider.deps ? this.flattenDeps(provider.deps) : []
-			const constructorDeps = this.getClassDependencies(provider.useClass)
-			// Combine both, using Set to avoid duplicates
-			const allDeps = [...new Set([...explicitDeps, ...constructorDeps])]
-			deps = allDeps
-		} else {
-			// Plain constructor
-			// biome-ignore lint/suspicious/noExplicitAny: Provider is a constructor of any type
-			deps = this.getClassDependencies(provider as Constructor<any>)
+		const consumerGroup = this.getGroupOwner(consumer)
+		if (consumerGroup === dependencyGroup) {
+			return
 		}
 
-		// If no dependencies, weight is 0
-		if (deps.length === 0) {
-			return 0
+		const consumerName = this.getTokenName(consumer)
+		const dependencyName = this.getTokenName(dependency)
+		const groupName = dependencyGroup.name
+
+		if (!exports.includes(dependency)) {
+			const consumerLocation = consumerGroup
+				? `${consumerName} belongs to group ${consumerGroup.name}`
+				: `${consumerName} is not part of any group`
+			throw new ContainerError(
+				`Cannot inject ${dependencyName} into ${consumerName}: ` +
+					`${dependencyName} is private to group ${groupName} and ${consumerLocation}.\n` +
+					`Add ${dependencyName} to the exports of ${groupName}.`,
+			)
 		}
 
-		// Otherwise, weight = max dependency weight + 1
-		let maxDepWeight = 0
-		for (const dep of deps) {
-			const depWeight = this.calculateWeightRecursive(dep, new Set(visited))
-			maxDepWeight = Math.max(maxDepWeight, depWeight)
+		if (
+			consumerGroup &&
+			!this.getImportedGroups(consumerGroup).includes(dependencyGroup)
+		) {
+			throw new ContainerError(
+				`Cannot inject ${dependencyName} into ${consumerName}: ` +
+					`group ${consumerGroup.name} does not import group ${groupName}.\n` +
+					`Add ${groupName} to the imports of ${consumerGroup.name}.`,
+			)
 		}
+	}
 
-		return maxDepWeight + 1
+	/**
+	 * Get the groups whose exports a group can inject
+	 *
+	 * Groups nested in `providers` count as imported by the enclosing group,
+	 * just like the groups listed in `imports`.
+	 *
+	 * @private
+	 * @param group - The importing group
+	 * @returns The imported and nested group classes
+	 */
+	private getImportedGroups(
+		group: Constructor<unknown>,
+	): Constructor<unknown>[] {
+		const { imports = [], providers = [] } = this.getGroupDefinition(group)
+		return [...imports, ...providers]
+			.filter((item) => isGroup(item) || isDynamicGroup(item))
+			.map((item) => (isDynamicGroup(item) ? item.group : item))
 	}
 
 	/**
-	 * Get dependencies for a class constructor
+	 * Flatten groups in a deps array
+	 *
+	 * Expands any groups found in the deps array to their constituent providers.
+	 * Also includes the group's own deps for weight calculation.
 	 *
 	 * @private
-	 * @param target - The class constructor to analyze
-	 * @returns Array of dependency tokens
+	 * @param deps - Array of dependencies that may contain groups
+	 * @returns Flattened array of dependencies with groups expanded
 	 */
-	private getClassDependencies(
-		// biome-ignore lint/suspicious/noExplicitAny: Constructor can be of any type
-		target: Constructor<any>,
-	): (InjectionToken | Constructor<unknown>)[] {
-		// biome-ignore lint/suspicious/noExplicitAny: Metadata can be of any type
-		const injectionTokens: any[] =
-			Reflect.getMetadata('inject:tokens', target) || []
+	private flattenDeps(
+		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
+		deps: (InjectionToken | Constructor<any> | DynamicGroup)[],
+		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
+	): (InjectionToken | Constructor<any>)[] {
+		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
+		const result: (InjectionToken | Constructor<any>)[] = []
+		const visited = new Set<Constructor<unknown>>()
 
-		// biome-ignore lint/suspicious/noExplicitAny: Constructor parameters can be of any type
-		const paramTypes: Constructor<any>[] =
-			Reflect.getMetadata('design:paramtypes', target) || []
+		const flatten = (
+			// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
+			items: (InjectionToken | Constructor<any> | DynamicGroup)[],
+		) => {
+			for (const item of items) {
+				// Check if it's a group (static or dynamic)
+				if (
+					isDynamicGroup(item) ||
+					(typeof item === 'function' && isGroup(item))
+				) {
+					const groupClass = isDynamicGroup(item) ? item.group : item
+					// Prevent infinite recursion
+					if (visited.has(groupClass)) {
+						continue
+					}
+					visited.add(groupClass)
 
-		const dependencies: (InjectionToken | Constructor<unknown>)[] = []
+					// Includes the providers added by dynamic groups such as forRoot()
+					const groupMeta = this.getGroupDefinition(item)
 
-		paramTypes.forEach((paramType, index) => {
-			const token = injectionTokens[index]
-			if (token) {
-				// Skip both new @Lazy and old lazy() patterns for weight calculation
-				const isNewLazy = typeof token === 'object' && '__lazyToken' in token
-				const isOldLazy = token instanceof LazyRefMarker
+					// Add the group's deps first (for weight calculation)
+					if (groupMeta.deps && groupMeta.deps.length > 0) {
+						flatten(groupMeta.deps)
+					}
 
-				if (!isNewLazy && !isOldLazy) {
-					dependencies.push(token as InjectionToken)
+					// Then flatten the group's providers
+					if (groupMeta.providers && groupMeta.providers.length > 0) {
+						const flattenedProviders = this.flattenProviders(
+							groupMeta.providers,
+						)
+						// Extract tokens from providers
+						for (const provider of flattenedProviders) {
+							const token = this.getProviderKey(provider)
+							result.push(token)
+						}
+					}
+				} else {
+					// Regular dependency, add it
+					result.push(item)
 				}
-			} else if (paramType) {
-				// Use parameter type
-				dependencies.push(paramType)
 			}
-		})
+		}
 
-		return dependencies
+		flatten(deps)
+		return result
 	}
 
 	/**
-	 * Get all providers sorted by weight (lowest first)
-	 *
-	 * Returns providers in optimal resolution order.
-	 * Services with fewer dependencies (lower weight) come first.
-	 *
-	 * @returns Array of providers with their weights, sorted by weight ascending
+	 * Check if a provider is a class provider
 	 *
-	 * @example
-	 * const sorted = container.getProvidersByWeight()
-	 * sorted.forEach(({ token, weight }) => {
-	 *   console.log(`${token}: weight ${weight}`)
-	 * })
+	 * @private
+	 * @template T - The provider type
+	 * @param provider - The provider to check
+	 * @returns True if the provider is a ClassProvider
 	 */
-	public getProvidersByWeight(): Array<{
-		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
-		token: InjectionToken | Constructor<any>
-		weight: number
-	}> {
-		const result: Array<{
-			// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
-			token: InjectionToken | Constructor<any>
-			weight: number
-		}> = []
-
-		for (const token of this.providers.keys()) {
-			const weight = this.calculateWeight(token)
-			result.push({ token, weight })
-		}
-
-		// Sort by weight (ascending)
-		result.sort((a, b) => a.weight - b.weight)
-
-		return result
+	private isClassProvider<T = unknown>(
+		provider: Provider<T>,
+	): provider is ClassProvider<T> {
+		return (provider as ClassProvider).useClass !== undefined
 	}
 
 	/**
-	 * Resolve all providers in optimal order (by weight)
-	 *
-	 * Resolves all registered providers, starting with those that have fewer dependencies.
-	 * Lazy-referenced services are resolved last (lower priority).
-	 * This is useful for bulk initialization/bootstrapping.
-	 *
-	 * @returns A promise that resolves to a map of all resolved instances
+	 * Check if a provider is a value provider
 	 *
-	 * @example
-	 * await container.resolveAll()
-	 * console.log('All services initialized!')
+	 * @private
+	 * @template T - The provider type
+	 * @param provider - The provider to check
+	 * @returns True if the provider is a ValueProvider
 	 */
-	public async resolveAll(): Promise<
-		// biome-ignore lint/suspicious/noExplicitAny: Can contain constructors and instances of any type
-		Map<InjectionToken | Constructor<any>, any>
-	> {
-		this.log(
-			'\n🔄 Resolving all providers in optimal order...\n',
-			LogLevel.MINIMAL,
-		)
-
-		const sorted = this.getProvidersByWeight()
-		// biome-ignore lint/suspicious/noExplicitAny: Lazy targets can be of any type
-		const lazyTargets = new Set<InjectionToken | Constructor<any>>()
+	private isValueProvider<T = unknown>(
+		provider: Provider<T>,
+	): provider is ValueProvider<T> {
+		return (provider as ValueProvider).useValue !== undefined
+	}
 
-		// Collect all lazy-referenced targets
-		for (const token of this.providers.keys()) {
-			const provider = this.providers.get(token)
-			if (provider && !this.isValueProvider(provider)) {
-				const target = this.isClassProvider(provider)
-					? provider.useClass
-					: // biome-ignore lint/suspicious/noExplicitAny: Provider is a constructor of any type
-						(provider as Constructor<any>)
-				// biome-ignore lint/suspicious/noExplicitAny: Injection tokens can be of any type
-				const injectionTokens: any[] =
-					Reflect.getMetadata('inject:tokens', target) || []
-
-				injectionTokens.forEach((injectToken) => {
-					// Check for new @Lazy pattern
-					if (
-						injectToken &&
-						typeof injectToken === 'object' &&
-						'__lazyToken' in injectToken
-					) {
-						lazyTargets.add(injectToken.__lazyToken)
-					}
-					// Check for old lazy() pattern
-					if (injectToken instanceof LazyRefMarker) {
-						lazyTargets.add(injectToken.ref())
-					}
-				})
-			}
-		}
+	/**
+	 * Check if a provider is a factory provider
+	 *
+	 * @private
+	 * @template T - The provider type
+	 * @param provider - The provider to check
+	 * @returns True if the provider is a FactoryProvider
+	 */
+	private isFactoryProvider<T = unknown>(
+		provider: Provider<T>,
+	): provider is FactoryProvider<T> {
+		return (provider as FactoryProvider).useFactory !== undefined
+	}
 
-		// First pass: resolve non-lazy services
-		for (const { token, weight } of sorted) {
-			if (!this.instances.has(token) && !lazyTargets.has(token)) {
-				this.log(`[Weight ${weight}] Resolving: ${this.getTokenName(token)}`)
-				try {
-					// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor or string/symbol
-					await this.resolve(token as any)
-					// biome-ignore lint/suspicious/noExplicitAny: Error can be of any type
-				} catch (error: any) {
-					this.log(`  ✗ Failed: ${error.message}`)
-				}
-			}
-		}
+	/**
+	 * Check if a provider is an alias (existing) provider
+	 *
+	 * @private
+	 * @template T - The provider type
+	 * @param provider - The provider to check
+	 * @returns True if the provider is an ExistingProvider
+	 */
+	private isExistingProvider<T = unknown>(
+		provider: Provider<T>,
+	): provider is ExistingProvider<T> {
+		return (provider as ExistingProvider).useExisting !== undefined
+	}
 
-		// Second pass: resolve lazy-referenced services (low priority)
-		this.log('\nResolving lazy-referenced services (low priority)...\n')
-		for (const { token, weight } of sorted) {
-			if (!this.instances.has(token) && lazyTargets.has(token)) {
-				this.log(
-					`[Lazy, Weight ${weight}] Resolving: ${this.getTokenName(token)}`,
-				)
-				try {
-					// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor or string/symbol
-					await this.resolve(token as any)
-					// biome-ignore lint/suspicious/noExplicitAny: Error can be of any type
-				} catch (error: any) {
-					this.log(`  ✗ Failed: ${error.message}`)
-				}
+	/**
+	 * Follow a chain of alias providers to the final target token
+	 *
+	 * @private
+	 * @param token - The token to start from
+	 * @returns The final non-alias token, or undefined if the token is not an
+	 * alias or the aliases form a cycle (reported by resolve())
+	 */
+	private getAliasTarget(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	): InjectionToken | Constructor<any> | undefined {
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		const visited = new Set<InjectionToken | Constructor<any>>()
+		let current = token
+		let provider = this.getProvider(current)
+
+		while (provider && this.isExistingProvider(provider)) {
+			if (visited.has(current)) {
+				return undefined
 			}
+			visited.add(current)
+			current = provider.useExisting
+			provider = this.getProvider(current)
 		}
 
-		this.log('\n✅ All providers resolved!\n', LogLevel.MINIMAL)
-		return this.instances
+		return current === token ? undefined : current
 	}
 
 	/**
-	 * Bootstrap the container with a list of providers (NestJS-style)
-	 *
-	 * This is a convenient way to register and resolve multiple providers at once.
-	 * All providers are registered first, then resolved in optimal order.
-	 * Groups are automatically flattened during registration.
-	 *
-	 * @param providersOrConfig - Array of providers or config object with providers
-	 * @returns The container instance (for chaining)
+	 * Look up the provider for a token in this container and its ancestors
 	 *
-	 * @example
-	 * // Simple usage with array
-	 * await container.bootstrap([
-	 *   ServiceA,
-	 *   ServiceB,
-	 *   { provide: 'CONFIG', useValue: { port: 3000 } }
-	 * ])
+	 * @private
+	 * @param token - The injection token
+	 * @returns The closest registered provider or undefined
+	 */
+	private getProvider(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): Provider<unknown> | undefined {
+		return this.providers.get(token) ?? this.parent?.getProvider(token)
+	}
+
+	/**
+	 * Get the scope of a provider
 	 *
-	 * @example
-	 * // With configuration object
-	 * await container.bootstrap({
-	 *   providers: [UserService, DatabaseService, AuthService]
-	 * })
+	 * Explicit provider scope wins over the scope stored by @Injectable.
+	 * Value providers are always singletons, aliases use the scope of their target.
 	 *
-	 * @example
-	 * // With groups
-	 * await container.bootstrap([
-	 *   ConfigModule,  // Group gets flattened
-	 *   AuthModule,    // Group gets flattened
-	 *   AppService
-	 * ])
+	 * @private
+	 * @param provider - The provider to inspect
+	 * @returns The provider scope
 	 */
-	// biome-ignore lint/suspicious/noExplicitAny: Providers can be of any type
-	public async bootstrap(
-		providersOrConfig: Provider<any>[] | { providers: Provider<any>[] },
-	): Promise<this> {
-		this.log('\n🚀 Bootstrapping container...\n', LogLevel.MINIMAL)
+	private getProviderScope(provider: Provider<unknown>): ProviderScope {
+		if (this.isValueProvider(provider)) {
+			return 'singleton'
+		}
+		if (this.isExistingProvider(provider)) {
+			// Aliases share the scope of their target
+			const target = this.getAliasTarget(provider.provide)
+			return target === undefined ? 'singleton' : this.getScope(target)
+		}
+		if (this.isFactoryProvider(provider)) {
+			return provider.scope ?? 'singleton'
+		}
+		if (this.isClassProvider(provider)) {
+			return (
+				provider.scope ??
+				getInjectableMetadata(provider.useClass)?.scope ??
+				'singleton'
+			)
+		}
+		return (
+			getInjectableMetadata(provider as Constructor<unknown>)?.scope ??
+			'singleton'
+		)
+	}
 
-		// Handle both array and object format
-		const providers = Array.isArray(providersOrConfig)
-			? providersOrConfig
-			: providersOrConfig.providers
+	/**
+	 * Get the scope of a registered token
+	 *
+	 * @private
+	 * @param token - The injection token
+	 * @returns The provider scope (singleton for unregistered tokens)
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	private getScope(token: InjectionToken | Constructor<any>): ProviderScope {
+		if (this.getContributions(token)) {
+			return 'singleton'
+		}
+		const provider = this.getProvider(token)
+		return provider ? this.getProviderScope(provider) : 'singleton'
+	}
 
-		// Flatten groups in the providers array
-		this.log('Flattening groups...')
-		const flattenedProviders = this.flattenProviders(providers)
-		this.log(
-			`Flattened ${providers.length} items into ${flattenedProviders.length} providers\n`,
+	/**
+	 * Check if a provider contributes to a multi provider token
+	 *
+	 * @private
+	 * @template T - The provider type
+	 * @param provider - The provider to check
+	 * @returns True if the provider has `multi: true`
+	 */
+	private isMultiProvider<T = unknown>(provider: Provider<T>): boolean {
+		return (
+			(this.isClassProvider(provider) ||
+				this.isValueProvider(provider) ||
+				this.isFactoryProvider(provider)) &&
+			provider.multi === true
 		)
+	}
 
-		// Register all providers
-		for (const provider of flattenedProviders) {
-			this.register(provider)
+	/**
+	 * Get the multi provider contributions for a token
+	 *
+	 * Looks up the container that registered the token (this one or an ancestor).
+	 *
+	 * @private
+	 * @param token - The injection token
+	 * @returns The contributions in registration order, or undefined if not a multi token
+	 */
+	private getContributions(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): Provider<unknown>[] | undefined {
+		if (this.providers.has(token)) {
+			return this.multiProviders.get(token)
 		}
+		return this.parent?.getContributions(token)
+	}
 
-		// Resolve all providers
-		await this.resolveAll()
-
-		this.log('🎉 Container bootstrapped successfully!\n', LogLevel.MINIMAL)
-		return this
+	/**
+	 * Get a human-readable name for a token
+	 *
+	 * @private
+	 * @param token - The injection token
+	 * @returns A string representation of the token
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	private getTokenName(token: InjectionToken | Constructor<any>): string {
+		if (typeof token === 'function') {
+			return token.name
+		}
+		return String(token)
 	}
 
 	/**
-	 * Get dependency graph for visualization/debugging
+	 * Check if an instance implements the OnInit interface
 	 *
-	 * Returns a map showing each provider's weight and its direct dependencies.
-	 * Useful for understanding the dependency structure or generating visualizations.
+	 * @private
+	 * @param instance - The instance to check
+	 * @returns True if the instance has an onInit method
+	 */
+	private hasOnInit(instance: unknown): instance is OnInit {
+		return (
+			typeof instance === 'object' &&
+			instance !== null &&
+			'onInit' in instance &&
+			typeof instance.onInit === 'function'
+		)
+	}
+
+	/**
+	 * Call the onDestroy hooks of a single instance
 	 *
-	 * @returns Map of service names to their dependency information
+	 * Errors are logged as a LifecycleHookError and do not stop the cleanup of other instances.
 	 *
-	 * @example
-	 * const graph = container.getDependencyGraph()
-	 * graph.forEach((info, name) => {
-	 *   console.log(`${name} (weight ${info.weight}):`, info.dependencies)
-	 * })
+	 * @private
+	 * @param tokenName - The name of the instance's token (for logging)
+	 * @param instance - The instance to destroy
+	 * @param onDestroy - Optional provider-level onDestroy hook
+	 * @returns The error of a failing hook, if any
 	 */
-	public getDependencyGraph(): Map<
-		string,
-		{ weight: number; dependencies: string[] }
-	> {
-		const graph = new Map<string, { weight: number; dependencies: string[] }>()
-
-		for (const token of this.providers.keys()) {
-			const tokenName = this.getTokenName(token)
-			const weight = this.calculateWeight(token)
-			const dependencies: string[] = []
+	private async destroyInstance(
+		tokenName: string,
+		instance: unknown,
+		onDestroy?: (instance: unknown) => Promise<void> | void,
+	): Promise<LifecycleHookError | undefined> {
+		try {
+			// First, call provider-level onDestroy hook if exists
+			if (onDestroy) {
+				this.log(`  -> Calling provider onDestroy for: ${tokenName}`)
+				await onDestroy(instance)
+			}
 
-			const provider = this.providers.get(token)
-			if (provider && !this.isValueProvider(provider)) {
-				if (this.isFactoryProvider(provider)) {
-					const deps = provider.deps || []
-					dependencies.push(...deps.map((d) => this.getTokenName(d)))
-				} else if (this.isClassProvider(provider)) {
-					const deps = this.getClassDependencies(provider.useClass)
-					dependencies.push(...deps.map((d) => this.getTokenName(d)))
-				} else {
-					// biome-ignore lint/suspicious/noExplicitAny: Provider is a constructor of any type
-					const deps = this.getClassDependencies(provider as Constructor<any>)
-					dependencies.push(...deps.map((d) => this.getTokenName(d)))
-				}
+			// Then, call instance-level onDestroy method if it implements OnDestroy
+			if (hasOnDestroy(instance)) {
+				this.log(`  -> Calling instance onDestroy for: ${tokenName}`)
+				await instance.onDestroy()
 			}
+		} catch (error) {
+			const hookError = new LifecycleHookError(tokenName, 'onDestroy', error)
+			this.logError(`  ✗ ${hookError.message}`, {
+				event: 'destroyFailed',
+				token: tokenName,
+				error: hookError,
+			})
+			return hookError
+		}
+		return undefined
+	}
 
-			graph.set(tokenName, { weight, dependencies })
+	/**
+	 * Call the onDestroy hooks of a cached instance
+	 *
+	 * @private
+	 * @param token - The token of the cached instance
+	 */
+	private async destroyToken(
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		token: InjectionToken | Constructor<any>,
+	): Promise<void> {
+		const instance = this.instances.get(token)
+		if (!instance) return
+
+		const tokenName = this.getTokenName(token)
+		const contributions = this.multiProviders.get(token)
+		this.emit('destroying', { token, tokenName })
+		const startedAt = performance.now()
+		let error: LifecycleHookError | undefined
+
+		if (contributions && Array.isArray(instance)) {
+			// Multi providers: destroy each contribution in reverse order
+			for (let index = contributions.length - 1; index >= 0; index--) {
+				const contribution = contributions[index]
+				const onDestroy =
+					contribution &&
+					(this.isClassProvider(contribution) ||
+						this.isFactoryProvider(contribution))
+						? contribution.onDestroy
+						: undefined
+				error =
+					(await this.destroyInstance(
+						`${tokenName}[${index}]`,
+						instance[index],
+						onDestroy,
+					)) ?? error
+			}
+		} else {
+			error = await this.destroyInstance(
+				tokenName,
+				instance,
+				this.providerMetadata.get(token)?.onDestroy,
+			)
 		}
 
-		return graph
+		this.emit('destroyed', {
+			token,
+			tokenName,
+			duration: performance.now() - startedAt,
+			error,
+		})
 	}
 
-	// ============================================================================
-	// Type Guards and Helper Methods
-	// ============================================================================
-
 	/**
-	 * Flatten groups in a providers array
+	 * Destroy the container and clean up all resources
+	 *
+	 * Calls onDestroy lifecycle hooks on all instances that implement OnDestroy
+	 * or have an onDestroy hook defined in their provider configuration.
+	 * A child container only destroys its own instances, never inherited ones.
+	 * Use this when shutting down your application to properly clean up resources.
 	 *
-	 * Recursively expands any groups found in the providers array.
-	 * Groups are expanded to their constituent providers.
+	 * @returns A promise that resolves when all cleanup is complete
 	 *
-	 * @private
-	 * @param providers - Array of providers that may contain groups
-	 * @returns Flattened array of providers with groups expanded
+	 * @example
+	 * // During application shutdown
+	 * await container.destroy()
 	 */
-	// biome-ignore lint/suspicious/noExplicitAny: Providers can be of any type
-	private flattenProviders(providers: Provider<any>[]): Provider<any>[] {
-		// biome-ignore lint/suspicious/noExplicitAny: Providers can be of any type
-		const result: Provider<any>[] = []
-		const visited = new Set<Constructor<unknown>>()
+	public async destroy(): Promise<void> {
+		const startedAt = performance.now()
+		this.log(
+			'\n🔄 Destroying container and cleaning up resources...\n',
+			LogLevel.MINIMAL,
+			{ event: 'destroy' },
+		)
 
-		// biome-ignore lint/suspicious/noExplicitAny: Providers can be of any type
-		const flatten = (items: Provider<any>[]) => {
-			for (const item of items) {
-				// Check if it's a group (plain constructor with @Group decorator)
-				if (typeof item === 'function' && isGroup(item)) {
-					// Prevent infinite recursion
-					if (visited.has(item)) {
-						continue
-					}
-					visited.add(item)
+		// Call onDestroy hooks in reverse order of instantiation
+		const tokens = Array.from(this.instances.keys()).reverse()
 
-					const groupMeta = getGroupMetadata(item)
-					if (groupMeta?.providers && groupMeta.providers.length > 0) {
-						// Recursively flatten nested groups
-						flatten(groupMeta.providers)
-					}
-				} else {
-					// Regular provider, add it
-					result.push(item)
-				}
-			}
+		for (const token of tokens) {
+			await this.destroyToken(token)
 		}
 
-		flatten(providers)
-		return result
+		// Clear all containers
+		this.clear()
+
+		this.log('\n✅ Container destroyed successfully!\n', LogLevel.MINIMAL, {
+			event: 'destroy',
+			duration: performance.now() - startedAt,
+		})
 	}
+}
+
+// ============================================================================
+// Testing
+// ============================================================================
 
+/**
+ * A function replacing a method in a generated mock
+ *
+ * Returns `undefined` until it is given an implementation or return value.
+ *
+ * @template A - The argument types
+ * @template R - The return type
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Mocked functions can take any arguments
+export interface MockFunction<A extends any[] = any[], R = any> {
+	(...args: A): R
+	/** Arguments of every call, in call order */
+	readonly calls: A[]
 	/**
-	 * Flatten groups in a deps array
+	 * Call a function instead of returning undefined
 	 *
-	 * Expands any groups found in the deps array to their constituent providers.
-	 * Also includes the group's own deps for weight calculation.
+	 * @param implementation - Called with the arguments of each call
+	 * @returns The mock function (for chaining)
+	 */
+	mockImplementation(implementation: (...args: A) => R): this
+	/**
+	 * Return a fixed value instead of undefined
 	 *
-	 * @private
-	 * @param deps - Array of dependencies that may contain groups
-	 * @returns Flattened array of dependencies with groups expanded
+	 * @param value - The value to return
+	 * @returns The mock function (for chaining)
 	 */
-	private flattenDeps(
-		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
-		deps: (InjectionToken | Constructor<any>)[],
-		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
-	): (InjectionToken | Constructor<any>)[] {
-		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
-		const result: (InjectionToken | Constructor<any>)[] = []
-		const visited = new Set<Constructor<unknown>>()
+	mockReturnValue(value: R): this
+}
 
-		// biome-ignore lint/suspicious/noExplicitAny: Dependencies can be of any type
-		const flatten = (items: (InjectionToken | Constructor<any>)[]) => {
-			for (const item of items) {
-				// Check if it's a group
-				if (typeof item === 'function' && isGroup(item)) {
-					// Prevent infinite recursion
-					if (visited.has(item)) {
-						continue
-					}
-					visited.add(item)
+/**
+ * A generated mock of a token, with its methods replaced by mock functions
+ *
+ * @template T - The type of the mocked token
+ */
+export type Mocked<T> = {
+	// biome-ignore lint/suspicious/noExplicitAny: Methods can take any arguments
+	[K in keyof T]: T[K] extends (...args: any[]) => any
+		? T[K] & MockFunction<Parameters<T[K]>, ReturnType<T[K]>>
+		: T[K]
+}
 
-					const groupMeta = getGroupMetadata(item)
-					if (groupMeta) {
-						// Add the group's deps first (for weight calculation)
-						if (groupMeta.deps && groupMeta.deps.length > 0) {
-							flatten(groupMeta.deps)
-						}
+/**
+ * Creates the mock of a token, or returns undefined to use a generated mock
+ */
+export type MockFactory = (
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	token: InjectionToken | Constructor<any>,
+) => unknown
 
-						// Then flatten the group's providers
-						if (groupMeta.providers && groupMeta.providers.length > 0) {
-							const flattenedProviders = this.flattenProviders(
-								groupMeta.providers,
-							)
-							// Extract tokens from providers
-							for (const provider of flattenedProviders) {
-								const token = this.getProviderKey(provider)
-								result.push(token)
-							}
-						}
+/**
+ * Create a mock function returning undefined
+ *
+ * @returns The mock function
+ */
+function createMockFunction(): MockFunction {
+	let implementation: ((...args: unknown[]) => unknown) | undefined
+	const calls: unknown[][] = []
+	const mock = function (this: unknown, ...args: unknown[]) {
+		calls.push(args)
+		return implementation?.apply(this, args)
+	} as MockFunction
+	return Object.assign(mock, {
+		calls,
+		mockImplementation(fn: (...args: unknown[]) => unknown) {
+			implementation = fn
+			return mock
+		},
+		mockReturnValue(value: unknown) {
+			implementation = () => value
+			return mock
+		},
+	})
+}
+
+/**
+ * Generate the mock of a token
+ *
+ * For a class, the mock inherits its prototype (so `instanceof` works) and
+ * every method, including inherited ones, is a mock function. For other
+ * tokens, any property read returns a mock function.
+ *
+ * @param token - The token to mock
+ * @returns The mock
+ */
+function createMock(
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	token: InjectionToken | Constructor<any>,
+): unknown {
+	if (typeof token !== 'function') {
+		const members = new Map<string, MockFunction>()
+		return new Proxy(
+			{},
+			{
+				get(_target, key) {
+					// Not a thenable, so that the mock can be awaited
+					if (typeof key === 'symbol' || key === 'then') {
+						return undefined
 					}
-				} else {
-					// Regular dependency, add it
-					result.push(item)
-				}
+					let member = members.get(key)
+					if (!member) {
+						member = createMockFunction()
+						members.set(key, member)
+					}
+					return member
+				},
+			},
+		)
+	}
+
+	const mock = Object.create(token.prototype)
+	for (
+		let prototype = token.prototype;
+		prototype && prototype !== Object.prototype;
+		prototype = Object.getPrototypeOf(prototype)
+	) {
+		for (const key of Reflect.ownKeys(prototype)) {
+			if (key === 'constructor' || Object.hasOwn(mock, key)) continue
+			const descriptor = Object.getOwnPropertyDescriptor(prototype, key)
+			if (typeof descriptor?.value === 'function') {
+				mock[key] = createMockFunction()
 			}
 		}
-
-		flatten(deps)
-		return result
 	}
+	return mock
+}
 
+/**
+ * Options for `Test.createContainer()`
+ */
+export interface TestContainerOptions extends BootstrapOptions {
+	/** Log level of the test container (default: LogLevel.OFF) */
+	logLevel?: LogLevel
 	/**
-	 * Check if a provider is a class provider
+	 * Replace dependencies without a provider by generated mocks (default: false)
+	 * Pass a function to create the mocks of some tokens yourself.
+	 * See `Container.getMock()`.
+	 */
+	autoMock?: boolean | MockFactory
+}
+
+/**
+ * Replacement for a provider, created by `TestContainerBuilder.overrideProvider()`
+ *
+ * @template T - The type of the overridden token
+ */
+export class ProviderOverride<T> {
+	/**
+	 * @internal Use `TestContainerBuilder.overrideProvider()` instead
+	 */
+	constructor(
+		private readonly builder: TestContainerBuilder,
+		// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+		private readonly token: InjectionToken<T> | Constructor<any>,
+		private readonly apply: (provider: Provider<unknown>) => void,
+	) {}
+
+	/**
+	 * Inject a fixed value instead
 	 *
-	 * @private
-	 * @template T - The provider type
-	 * @param provider - The provider to check
-	 * @returns True if the provider is a ClassProvider
+	 * @param value - The value to inject
+	 * @returns The builder (for chaining)
 	 */
-	private isClassProvider<T = unknown>(
-		provider: Provider<T>,
-	): provider is ClassProvider<T> {
-		return (provider as ClassProvider).useClass !== undefined
+	useValue(value: T): TestContainerBuilder {
+		this.apply({ provide: this.token, useValue: value })
+		return this.builder
 	}
 
 	/**
-	 * Check if a provider is a value provider
+	 * Instantiate another class instead
 	 *
-	 * @private
-	 * @template T - The provider type
-	 * @param provider - The provider to check
-	 * @returns True if the provider is a ValueProvider
+	 * @param useClass - The replacement class
+	 * @returns The builder (for chaining)
 	 */
-	private isValueProvider<T = unknown>(
-		provider: Provider<T>,
-	): provider is ValueProvider<T> {
-		return (provider as ValueProvider).useValue !== undefined
+	useClass(useClass: Constructor<T>): TestContainerBuilder {
+		this.apply({ provide: this.token, useClass })
+		return this.builder
 	}
 
 	/**
-	 * Check if a provider is a factory provider
+	 * Call a factory instead
 	 *
-	 * @private
-	 * @template T - The provider type
-	 * @param provider - The provider to check
-	 * @returns True if the provider is a FactoryProvider
+	 * @param useFactory - The factory creating the value
+	 * @param deps - Dependencies passed to the factory
+	 * @returns The builder (for chaining)
 	 */
-	private isFactoryProvider<T = unknown>(
-		provider: Provider<T>,
-	): provider is FactoryProvider<T> {
-		return (provider as FactoryProvider).useFactory !== undefined
+	useFactory(
+		// biome-ignore lint/suspicious/noExplicitAny: Factory args can be any type
+		useFactory: (...args: any[]) => T | Promise<T>,
+		deps?: FactoryDependency[],
+	): TestContainerBuilder {
+		this.apply({ provide: this.token, useFactory, deps })
+		return this.builder
 	}
+}
+
+/**
+ * Replacement for a group, created by `TestContainerBuilder.overrideGroup()`
+ */
+export class GroupOverride {
+	/**
+	 * @internal Use `TestContainerBuilder.overrideGroup()` instead
+	 */
+	constructor(
+		private readonly builder: TestContainerBuilder,
+		private readonly group: Constructor<unknown>,
+		private readonly apply: (options: GroupOptions) => void,
+	) {}
 
 	/**
-	 * Get a human-readable name for a token
+	 * Use the definition of another group instead
 	 *
-	 * @private
-	 * @param token - The injection token
-	 * @returns A string representation of the token
+	 * The replaced group keeps its identity, so groups importing it see the
+	 * exports of the replacement.
+	 *
+	 * @param replacement - The group (or dynamic group) to use instead
+	 * @returns The builder (for chaining)
 	 */
-	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
-	private getTokenName(token: InjectionToken | Constructor<any>): string {
-		if (typeof token === 'function') {
-			return token.name
+	useGroup(
+		// biome-ignore lint/suspicious/noExplicitAny: Groups can be constructors of any type
+		replacement: Constructor<any> | DynamicGroup,
+	): TestContainerBuilder {
+		const replacementClass = isDynamicGroup(replacement)
+			? replacement.group
+			: replacement
+		const groupMeta = getGroupMetadata(replacementClass) ?? {}
+		if (!isDynamicGroup(replacement)) {
+			this.apply(groupMeta)
+			return this.builder
 		}
-		return String(token)
+		this.apply({
+			...groupMeta,
+			providers: [
+				...(groupMeta.providers ?? []),
+				...(replacement.providers ?? []),
+			],
+			imports: [...(groupMeta.imports ?? []), ...(replacement.imports ?? [])],
+			exports:
+				groupMeta.exports || replacement.exports
+					? [...(groupMeta.exports ?? []), ...(replacement.exports ?? [])]
+					: undefined,
+		})
+		return this.builder
 	}
 
 	/**
-	 * Check if an instance implements the OnInit interface
+	 * Keep the group's imports and exports, but register other providers
 	 *
-	 * @private
-	 * @param instance - The instance to check
-	 * @returns True if the instance has an onInit method
+	 * @param providers - The providers of the group
+	 * @returns The builder (for chaining)
 	 */
-	private hasOnInit(instance: unknown): instance is OnInit {
-		return (
-			typeof instance === 'object' &&
-			instance !== null &&
-			'onInit' in instance &&
-			typeof instance.onInit === 'function'
-		)
+	useProviders(providers: ProviderOrGroup[]): TestContainerBuilder {
+		this.apply({ ...getGroupMetadata(this.group), providers })
+		return this.builder
 	}
+}
+
+/**
+ * Builder of an isolated container for tests, created by `Test.createContainer()`
+ */
+export class TestContainerBuilder {
+	// Providers replacing the registrations of their tokens
+	private readonly providerOverrides: Provider<unknown>[] = []
+
+	// Options replacing the definitions of groups
+	private readonly groupOverrides = new Map<
+		Constructor<unknown>,
+		GroupOptions
+	>()
+
+	/**
+	 * @internal Use `Test.createContainer()` instead
+	 */
+	constructor(private readonly options: TestContainerOptions) {}
 
 	/**
-	 * Check if an instance implements the OnDestroy interface
+	 * Replace the provider of a token
 	 *
-	 * @private
-	 * @param instance - The instance to check
-	 * @returns True if the instance has an onDestroy method
+	 * Applies wherever the token is registered, including inside groups,
+	 * and to tokens that are not registered at all.
+	 *
+	 * @template T - The type of the token
+	 * @param token - The token to override
+	 * @returns The override, to choose the replacement with
+	 *
+	 * @example
+	 * Test.createContainer({ providers: [AppModule] })
+	 *   .overrideProvider(Database)
+	 *   .useValue(fakeDatabase)
 	 */
-	private hasOnDestroy(instance: unknown): instance is OnDestroy {
-		return (
-			typeof instance === 'object' &&
-			instance !== null &&
-			'onDestroy' in instance &&
-			typeof instance.onDestroy === 'function'
-		)
+	overrideProvider<T>(
+		token: InjectionToken<T> | Constructor<T>,
+	): ProviderOverride<T> {
+		return new ProviderOverride<T>(this, token, (provider) => {
+			this.providerOverrides.push(provider)
+		})
 	}
 
 	/**
-	 * Destroy the container and clean up all resources
+	 * Replace the definition of a group
 	 *
-	 * Calls onDestroy lifecycle hooks on all instances that implement OnDestroy
-	 * or have an onDestroy hook defined in their provider configuration.
-	 * Use this when shutting down your application to properly clean up resources.
-	 *
-	 * @returns A promise that resolves when all cleanup is complete
+	 * @param group - The group class to override
+	 * @returns The override, to choose the replacement with
 	 *
 	 * @example
-	 * // During application shutdown
-	 * await container.destroy()
+	 * Test.createContainer({ providers: [AppModule] })
+	 *   .overrideGroup(DatabaseModule)
+	 *   .useGroup(InMemoryDatabaseModule)
 	 */
-	public async destroy(): Promise<void> {
-		this.log(
-			'\n🔄 Destroying container and cleaning up resources...\n',
-			LogLevel.MINIMAL,
+	overrideGroup(
+		// biome-ignore lint/suspicious/noExplicitAny: Groups can be constructors of any type
+		group: Constructor<any>,
+	): GroupOverride {
+		return new GroupOverride(this, group, (options) => {
+			this.groupOverrides.set(group, options)
+		})
+	}
+
+	/**
+	 * Create the container, register the providers with their overrides and bootstrap it
+	 *
+	 * The container is created with `Container.create()`, so it never
+	 * touches the global `Container.createOrGet()` instance.
+	 *
+	 * @returns A promise that resolves to the bootstrapped container
+	 * @throws {ValidationError} If validation finds missing providers, undefined parameter types or cycles
+	 * @throws {BootstrapError} In strict mode, if any provider fails to resolve
+	 */
+	async compile(): Promise<Container> {
+		const { logLevel, autoMock, ...bootstrapOptions } = this.options
+		const container = Container.create()
+		container.setLogLevel(logLevel ?? LogLevel.OFF)
+		containerInternals.applyOverrides(
+			container,
+			this.providerOverrides,
+			this.groupOverrides,
 		)
+		if (autoMock) {
+			containerInternals.enableAutoMock(
+				container,
+				typeof autoMock === 'function' ? autoMock : undefined,
+			)
+		}
+		return container.bootstrap(bootstrapOptions)
+	}
+}
 
-		// Call onDestroy hooks in reverse order of instantiation
-		const tokens = Array.from(this.instances.keys()).reverse()
+/**
+ * Entry point for creating isolated containers in tests
+ *
+ * @example
+ * const container = await Test.createContainer({ providers: [AppModule] })
+ *   .overrideProvider(MailService)
+ *   .useClass(FakeMailService)
+ *   .overrideProvider(API_URL)
+ *   .useValue('http://localhost')
+ *   .compile()
+ *
+ * const app = container.getInstanceOrThrow(AppService)
+ * // ...
+ * await container.destroy()
+ */
+export const Test: {
+	/**
+	 * Start building an isolated container
+	 *
+	 * @param options - The providers to register and the bootstrap options
+	 * @returns A builder to override providers and groups with
+	 */
+	createContainer(options: TestContainerOptions): TestContainerBuilder
+} = {
+	createContainer(options) {
+		return new TestContainerBuilder(options)
+	},
+}
 
-		for (const token of tokens) {
-			const instance = this.instances.get(token)
-			if (!instance) continue
+// ============================================================================
+// Graph Assertions
+// ============================================================================
 
-			const tokenName = this.getTokenName(token)
+/**
+ * Options for `expectDependsOn()` and `expectNotDependsOn()`
+ */
+export interface DependencyAssertionOptions {
+	/** Only consider direct dependencies, not transitive ones (default: false) */
+	direct?: boolean
+}
 
-			try {
-				// First, call provider-level onDestroy hook if exists
-				const metadata = this.providerMetadata.get(token)
-				if (metadata?.onDestroy) {
-					this.log(`  -> Calling provider onDestroy for: ${tokenName}`)
-					await metadata.onDestroy(instance)
-				}
+/**
+ * Options for `expectNoUnusedProviders()`
+ */
+export interface UnusedProvidersOptions {
+	/** Tokens used from outside the container (controllers, the app root, ...) */
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	entryPoints?: (InjectionToken | Constructor<any>)[]
+}
 
-				// Then, call instance-level onDestroy method if it implements OnDestroy
-				if (this.hasOnDestroy(instance)) {
-					this.log(`  -> Calling instance onDestroy for: ${tokenName}`)
-					await instance.onDestroy()
+/**
+ * Find the shortest dependency path between two tokens
+ *
+ * Lazy dependencies are followed too, since they are still dependencies.
+ *
+ * @param container - The container to inspect
+ * @param from - The depending token
+ * @param to - The dependency to look for
+ * @param direct - Only follow one level of dependencies
+ * @returns The tokens from `from` to `to`, or undefined if `from` does not depend on `to`
+ */
+function findDependencyPath(
+	container: Container,
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	from: InjectionToken | Constructor<any>,
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	to: InjectionToken | Constructor<any>,
+	direct: boolean,
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+): (InjectionToken | Constructor<any>)[] | undefined {
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	type AnyToken = InjectionToken | Constructor<any>
+	const previous = new Map<AnyToken, AnyToken>()
+	const queue: AnyToken[] = [from]
+	while (queue.length > 0) {
+		const current = queue.shift() as AnyToken
+		for (const { token } of containerInternals.getDependencyTargets(
+			container,
+			current,
+		)) {
+			if (previous.has(token) || token === from) continue
+			previous.set(token, current)
+			if (token === to) {
+				const path = [to]
+				for (let step = current; step !== from; ) {
+					path.unshift(step)
+					step = previous.get(step) ?? from
 				}
-				// biome-ignore lint/suspicious/noExplicitAny: Error can be of any type
-			} catch (error: any) {
-				this.logError(
-					`  ✗ Error during destroy of ${tokenName}: ${error.message}`,
-				)
+				return [from, ...path]
 			}
+			if (!direct) queue.push(token)
 		}
+	}
+	return undefined
+}
 
-		// Clear all containers
-		this.clear()
+/**
+ * Assert that the dependency graph has no circular dependencies
+ *
+ * Cycles broken with `@Lazy()` or `lazy()` are allowed, as they resolve fine.
+ *
+ * @param container - The container to inspect
+ * @throws {GraphAssertionError} Listing every cycle found
+ *
+ * @example
+ * test('has no circular dependencies', () => {
+ *   expectNoCycles(container)
+ * })
+ */
+export function expectNoCycles(container: Container): void {
+	const cycles = container
+		.validate()
+		.issues.filter((issue) => issue.type === 'circular-dependency')
+	if (cycles.length === 0) return
+	throw new GraphAssertionError(
+		`Expected no circular dependencies, found ${cycles.length}:\n` +
+			cycles.map((cycle) => `  - ${cycle.path.join(' -> ')}`).join('\n'),
+	)
+}
+
+/**
+ * Assert that a token can be resolved, without instantiating anything
+ *
+ * The token needs a provider (or to be a class) and its dependencies must be
+ * free of the issues reported by `Container.validate()`.
+ *
+ * @param container - The container to inspect
+ * @param token - The token to check
+ * @throws {GraphAssertionError} Listing every issue found
+ *
+ * @example
+ * expectResolvable(container, UserController)
+ */
+export function expectResolvable(
+	container: Container,
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	token: InjectionToken | Constructor<any>,
+): void {
+	const tokenName = containerInternals.getTokenName(container, token)
+	if (!container.hasProvider(token) && typeof token !== 'function') {
+		throw new GraphAssertionError(
+			`Expected ${tokenName} to be resolvable, but it has no provider`,
+		)
+	}
+	const { issues } = container.validate([token])
+	if (issues.length === 0) return
+	throw new GraphAssertionError(
+		`Expected ${tokenName} to be resolvable, found ${issues.length} issue(s):\n` +
+			issues
+				.map(
+					(issue) =>
+						`  - ${issue.message}\n    Path: ${issue.path.join(' -> ')}`,
+				)
+				.join('\n'),
+	)
+}
+
+/**
+ * Assert that a token depends on another one
+ *
+ * Transitive and lazy dependencies count unless `direct` is set.
+ *
+ * @param container - The container to inspect
+ * @param from - The depending token
+ * @param to - The expected dependency
+ * @param options - Whether to only consider direct dependencies
+ * @throws {GraphAssertionError} If `from` does not depend on `to`
+ *
+ * @example
+ * expectDependsOn(container, UserService, UserRepository, { direct: true })
+ */
+export function expectDependsOn(
+	container: Container,
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	from: InjectionToken | Constructor<any>,
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	to: InjectionToken | Constructor<any>,
+	options: DependencyAssertionOptions = {},
+): void {
+	if (findDependencyPath(container, from, to, options.direct === true)) return
+	throw new GraphAssertionError(
+		`Expected ${containerInternals.getTokenName(container, from)} to depend ${options.direct ? 'directly ' : ''}on ${containerInternals.getTokenName(container, to)}`,
+	)
+}
+
+/**
+ * Assert that a token does not depend on another one
+ *
+ * Transitive and lazy dependencies count unless `direct` is set.
+ * Useful to enforce architecture rules in CI without booting the app.
+ *
+ * @param container - The container to inspect
+ * @param from - The depending token
+ * @param to - The forbidden dependency
+ * @param options - Whether to only consider direct dependencies
+ * @throws {GraphAssertionError} With the dependency path, if `from` depends on `to`
+ *
+ * @example
+ * // Controllers never depend on repositories directly
+ * for (const controller of controllers) {
+ *   expectNotDependsOn(container, controller, UserRepository, { direct: true })
+ * }
+ */
+export function expectNotDependsOn(
+	container: Container,
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	from: InjectionToken | Constructor<any>,
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	to: InjectionToken | Constructor<any>,
+	options: DependencyAssertionOptions = {},
+): void {
+	const path = findDependencyPath(container, from, to, options.direct === true)
+	if (!path) return
+	throw new GraphAssertionError(
+		`Expected ${containerInternals.getTokenName(container, from)} not to depend ${options.direct ? 'directly ' : ''}on ${containerInternals.getTokenName(container, to)}\n` +
+			`  Path: ${path.map((step) => containerInternals.getTokenName(container, step)).join(' -> ')}`,
+	)
+}
+
+/**
+ * Assert that no registered provider exceeds a dependency weight
+ *
+ * @param container - The container to inspect
+ * @param max - The highest allowed weight (see `Container.calculateWeight()`)
+ * @throws {GraphAssertionError} Listing the heavier providers, heaviest first
+ *
+ * @example
+ * expectMaxWeight(container, 5)
+ */
+export function expectMaxWeight(container: Container, max: number): void {
+	const heavier = container
+		.getProvidersByWeight()
+		.filter(({ weight }) => weight > max)
+		.reverse()
+	if (heavier.length === 0) return
+	throw new GraphAssertionError(
+		`Expected every provider to have a weight of at most ${max}, found ${heavier.length} heavier:\n` +
+			heavier
+				.map(
+					({ token, weight }) =>
+						`  - ${containerInternals.getTokenName(container, token)} (weight ${weight})`,
+				)
+				.join('\n'),
+	)
+}
 
-		this.log('\n✅ Container destroyed successfully!\n', LogLevel.MINIMAL)
+/**
+ * Assert that every registered provider is reachable from an entry point
+ *
+ * Tokens used from outside the container, such as controllers or the app
+ * root, are passed as `entryPoints`, and every provider they depend on,
+ * directly or not, is used. Providers that only depend on each other are
+ * unused. Lazy dependencies count as uses.
+ *
+ * @param container - The container to inspect
+ * @param options - The tokens used from outside the container
+ * @throws {GraphAssertionError} Listing every unused provider
+ *
+ * @example
+ * expectNoUnusedProviders(container, { entryPoints: [AppController] })
+ */
+export function expectNoUnusedProviders(
+	container: Container,
+	options: UnusedProvidersOptions = {},
+): void {
+	// biome-ignore lint/suspicious/noExplicitAny: Token can be constructor of any type
+	type AnyToken = InjectionToken | Constructor<any>
+	const used = new Set<AnyToken>(options.entryPoints)
+	const queue = Array.from(used)
+	while (queue.length > 0) {
+		const current = queue.shift() as AnyToken
+		for (const { token } of containerInternals.getDependencyTargets(
+			container,
+			current,
+		)) {
+			if (used.has(token)) continue
+			used.add(token)
+			queue.push(token)
+		}
 	}
+
+	const unused = Array.from(container.getProvidersMap().keys()).filter(
+		(token) => !used.has(token),
+	)
+	if (unused.length === 0) return
+	throw new GraphAssertionError(
+		`Expected every provider to be used, found ${unused.length} unused:\n` +
+			unused
+				.map(
+					(token) => `  - ${containerInternals.getTokenName(container, token)}`,
+				)
+				.join('\n'),
+	)
 }
@@ -1,22 +1,54 @@
 import 'reflect-metadata'
 import { beforeEach, describe, expect, test } from 'bun:test'
 import {
+	BootstrapError,
+	BootstrapReport,
+	CircularDependencyError,
 	type ClassProvider,
+	ConsoleLogger,
 	Container,
+	ContainerError,
+	type ContainerEvents,
+	type ContainerLogger,
+	type DynamicGroup,
+	expectDependsOn,
+	expectMaxWeight,
+	expectNoCycles,
+	expectNotDependsOn,
+	expectNoUnusedProviders,
+	expectResolvable,
 	type FactoryProvider,
 	forwardRef,
+	GraphAssertionError,
+	type GraphExport,
 	Group,
+	type GroupAsyncOptions,
 	getGroupMetadata,
+	getInjectableMetadata,
 	Inject,
 	Injectable,
+	type Interceptor,
+	isDynamicGroup,
 	isGroup,
+	JsonLinesLogger,
 	Lazy,
 	LazyRef,
 	LazyRefMarker,
+	LifecycleHookError,
+	type LogContext,
 	LogLevel,
 	lazy,
 	type OnDestroy,
 	type OnInit,
+	Optional,
+	ProviderNotFoundError,
+	RequestScope,
+	Test,
+	Token,
+	UndefinedParameterTypeError,
+	UnresolvedInstanceError,
+	UseInterceptors,
+	ValidationError,
 	type ValueProvider,
 } from '../src'
 
@@ -29,6 +61,7 @@ function resetContainer() {
 	const container = Container.createOrGet()
 	container.clear()
 	container.setLogLevel(LogLevel.OFF) // Disable logging for tests
+	container.setLogger(new ConsoleLogger())
 	// Reset resolution order tracking
 	resolutionOrder.length = 0
 }
@@ -540,6 +573,21 @@ describe('LazyRef', () => {
 		lazyRef.reset()
 		expect(lazyRef.isResolved()).toBe(false)
 	})
+
+	test('should reset a LazyRef whose instance lives in the parent container', async () => {
+		const parent = Container.create()
+		parent.register(ServiceD)
+		const first = await parent.resolve(ServiceD)
+		const child = parent.createChild()
+
+		const lazyRef = new LazyRef(child, ServiceD)
+		expect(lazyRef.isResolved()).toBe(true)
+
+		lazyRef.reset()
+		expect(lazyRef.isResolved()).toBe(false)
+		expect(parent.getInstance(ServiceD)).toBeUndefined()
+		expect(await child.resolve(ServiceD)).not.toBe(first)
+	})
 })
 
 // ============================================================================
@@ -1608,3 +1656,4309 @@ describe('Logging Configuration', () => {
 		expect(container.getInstance(TestService)).toBeInstanceOf(TestService)
 	})
 })
+
+// ============================================================================
+// Transient Scope Tests
+// ============================================================================
+
+describe('Transient Scope', () => {
+	beforeEach(resetContainer)
+
+	test('should create a new instance on every resolve', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'transient' })
+		class UnitOfWork {}
+
+		container.register(UnitOfWork)
+
+		const first = await container.resolve(UnitOfWork)
+		const second = await container.resolve(UnitOfWork)
+
+		expect(first).toBeInstanceOf(UnitOfWork)
+		expect(first).not.toBe(second)
+		expect(container.getInstance(UnitOfWork)).toBeUndefined()
+	})
+
+	test('should inject a fresh instance into each dependent', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'transient' })
+		class Builder {}
+
+		@Injectable()
+		class ConsumerA {
+			constructor(public builder: Builder) {}
+		}
+
+		@Injectable()
+		class ConsumerB {
+			constructor(public builder: Builder) {}
+		}
+
+		container.register(Builder)
+		container.register(ConsumerA)
+		container.register(ConsumerB)
+
+		const a = await container.resolve(ConsumerA)
+		const b = await container.resolve(ConsumerB)
+
+		expect(a.builder).toBeInstanceOf(Builder)
+		expect(a.builder).not.toBe(b.builder)
+	})
+
+	test('should support scope on class and factory providers', async () => {
+		const container = Container.createOrGet()
+		let created = 0
+
+		@Injectable()
+		class Impl {}
+
+		container.register({ provide: 'CLASS', useClass: Impl, scope: 'transient' })
+		container.register({
+			provide: 'FACTORY',
+			useFactory: () => ({ id: ++created }),
+			scope: 'transient',
+		})
+
+		expect(await container.resolve('CLASS')).not.toBe(
+			await container.resolve('CLASS'),
+		)
+		expect(await container.resolve<{ id: number }>('FACTORY')).toEqual({
+			id: 1,
+		})
+		expect(await container.resolve<{ id: number }>('FACTORY')).toEqual({
+			id: 2,
+		})
+	})
+
+	test('should let provider scope override @Injectable scope', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'transient' })
+		class Impl {}
+
+		container.register({ provide: 'IMPL', useClass: Impl, scope: 'singleton' })
+
+		expect(await container.resolve('IMPL')).toBe(
+			await container.resolve('IMPL'),
+		)
+	})
+
+	test('should call onInit for every transient instance', async () => {
+		const container = Container.createOrGet()
+		let initCount = 0
+
+		@Injectable({ scope: 'transient' })
+		class WithInit implements OnInit {
+			onInit() {
+				initCount++
+			}
+		}
+
+		container.register(WithInit)
+		await container.resolve(WithInit)
+		await container.resolve(WithInit)
+
+		expect(initCount).toBe(2)
+	})
+
+	test('should not pre-instantiate transient providers in resolveAll', async () => {
+		const container = Container.createOrGet()
+		let created = 0
+
+		@Injectable({ scope: 'transient' })
+		class Counted {
+			constructor() {
+				created++
+			}
+		}
+
+		await container.bootstrap([Counted])
+
+		expect(created).toBe(0)
+	})
+
+	test('should throw a descriptive error from LazyRef for transient targets', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'transient' })
+		class Target {}
+
+		container.register(Target)
+		const ref = new LazyRef(container, Target)
+
+		expect(ref.isResolved()).toBe(false)
+		expect(ref.tryGetValue()).toBeUndefined()
+		expect(() => ref.get()).toThrow(
+			'Cannot get transient instance synchronously',
+		)
+	})
+
+	test('should report scope in dependency graph', () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'transient' })
+		class Transient {}
+
+		container.register(Transient)
+		container.register(BasicService)
+
+		const graph = container.getDependencyGraph()
+		expect(graph.get('Transient')?.scope).toBe('transient')
+		expect(graph.get('BasicService')?.scope).toBe('singleton')
+	})
+})
+
+// ============================================================================
+// Request Scope Tests
+// ============================================================================
+
+describe('Request Scope', () => {
+	beforeEach(resetContainer)
+
+	test('should share one instance within a scope and isolate scopes', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		container.register(RequestContext)
+
+		const [first, second] = await container.runInScope(async () => {
+			const a = await container.resolve(RequestContext)
+			await new Promise((resolve) => setTimeout(resolve, 1))
+			const b = await container.resolve(RequestContext)
+			return [a, b]
+		})
+		const other = await container.runInScope(() =>
+			container.resolve(RequestContext),
+		)
+
+		expect(first).toBeInstanceOf(RequestContext)
+		expect(first).toBe(second)
+		expect(other).not.toBe(first)
+	})
+
+	test('should share one instance between concurrent resolutions in a scope', async () => {
+		let created = 0
+		let destroyed = 0
+
+		@Injectable({ scope: 'request' })
+		class Session implements OnInit, OnDestroy {
+			constructor() {
+				created++
+			}
+
+			async onInit() {
+				await new Promise((resolve) => setTimeout(resolve, 5))
+			}
+
+			onDestroy() {
+				destroyed++
+			}
+		}
+
+		const container = Container.createOrGet()
+		container.register(Session)
+
+		const [first, second, third] = await container.runInScope(() =>
+			Promise.all([
+				container.resolve(Session),
+				container.resolve(Session),
+				container.resolve(Session),
+			]),
+		)
+
+		expect(first).toBe(second)
+		expect(second).toBe(third)
+		expect(created).toBe(1)
+		expect(destroyed).toBe(1)
+	})
+
+	test('should wait for in-flight creations before destroying the scope', async () => {
+		const destroyed: string[] = []
+
+		@Injectable({ scope: 'request' })
+		class Session implements OnInit, OnDestroy {
+			async onInit() {
+				await new Promise((resolve) => setTimeout(resolve, 5))
+			}
+
+			onDestroy() {
+				destroyed.push('Session')
+			}
+		}
+
+		const container = Container.createOrGet()
+		container.register(Session)
+
+		const scope = container.createScope()
+		const resolution = scope.run(() => container.resolve(Session))
+		await scope.destroy()
+
+		expect(scope.has(Session)).toBe(false)
+		expect(await resolution).toBeInstanceOf(Session)
+		expect(destroyed).toEqual(['Session'])
+	})
+
+	test('should inject request-scoped instances into request-scoped dependents', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		@Injectable({ scope: 'request' })
+		class Handler {
+			constructor(public ctx: RequestContext) {}
+		}
+
+		container.register(RequestContext)
+		container.register(Handler)
+
+		await container.runInScope(async () => {
+			const handler = await container.resolve(Handler)
+			expect(handler.ctx).toBe(await container.resolve(RequestContext))
+		})
+	})
+
+	test('should throw when resolving outside of a scope', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		container.register(RequestContext)
+
+		await expect(container.resolve(RequestContext)).rejects.toThrow(
+			'outside of a request scope',
+		)
+	})
+
+	test('should reject injecting a request-scoped provider into a singleton', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		@Injectable({ scope: 'transient' })
+		class Helper {
+			constructor(public ctx: RequestContext) {}
+		}
+
+		@Injectable()
+		class Singleton {
+			constructor(public helper: Helper) {}
+		}
+
+		container.register(RequestContext)
+		container.register(Helper)
+		container.register(Singleton)
+
+		await container.runInScope(async () => {
+			await expect(container.resolve(Singleton)).rejects.toThrow(
+				'Chain: Singleton -> Helper -> RequestContext',
+			)
+		})
+	})
+
+	test('should let a singleton reach request-scoped instances through LazyRef', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		@Injectable()
+		class Singleton {
+			constructor(@Lazy(RequestContext) public ctx: LazyRef<RequestContext>) {}
+		}
+
+		container.register(RequestContext)
+		container.register(Singleton)
+		const singleton = await container.resolve(Singleton)
+
+		await container.runInScope(async () => {
+			const ctx = await container.resolve(RequestContext)
+			expect(singleton.ctx.get()).toBe(ctx)
+		})
+		expect(singleton.ctx.isResolved()).toBe(false)
+	})
+
+	test('should call onDestroy for request-scoped instances when the scope ends', async () => {
+		const container = Container.createOrGet()
+		const calls: string[] = []
+
+		@Injectable({ scope: 'request' })
+		class RequestContext implements OnDestroy {
+			onDestroy() {
+				calls.push('instance')
+			}
+		}
+
+		container.register({
+			provide: 'CONN',
+			useFactory: () => ({}),
+			scope: 'request',
+			onDestroy: () => {
+				calls.push('provider')
+			},
+		})
+		container.register(RequestContext)
+
+		await container.runInScope(async () => {
+			await container.resolve(RequestContext)
+			await container.resolve('CONN')
+			expect(calls).toEqual([])
+		})
+
+		expect(calls).toEqual(['provider', 'instance'])
+	})
+
+	test('should destroy the scope even if the callback throws', async () => {
+		const container = Container.createOrGet()
+		let destroyed = false
+
+		@Injectable({ scope: 'request' })
+		class RequestContext implements OnDestroy {
+			onDestroy() {
+				destroyed = true
+			}
+		}
+
+		container.register(RequestContext)
+
+		await expect(
+			container.runInScope(async () => {
+				await container.resolve(RequestContext)
+				throw new Error('handler failed')
+			}),
+		).rejects.toThrow('handler failed')
+		expect(destroyed).toBe(true)
+	})
+
+	test('should support manual scopes with createScope()', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		container.register(RequestContext)
+
+		const scope = container.createScope()
+		expect(scope).toBeInstanceOf(RequestScope)
+
+		const ctx = await scope.run(() => container.resolve(RequestContext))
+		expect(scope.get(RequestContext)).toBe(ctx)
+		expect(scope.run(() => container.getCurrentScope())).toBe(scope)
+		expect(container.getCurrentScope()).toBeUndefined()
+
+		await scope.destroy()
+		expect(scope.has(RequestContext)).toBe(false)
+	})
+
+	test('should not pre-instantiate request-scoped providers in bootstrap', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		await container.bootstrap([RequestContext])
+
+		expect(container.getInstance(RequestContext)).toBeUndefined()
+	})
+})
+
+// ============================================================================
+// Child Container Tests
+// ============================================================================
+
+describe('Child Containers', () => {
+	beforeEach(resetContainer)
+
+	test('should create isolated containers independent of the singleton', async () => {
+		const isolated = Container.create()
+		isolated.setLogLevel(LogLevel.OFF)
+		isolated.register({ provide: 'VALUE', useValue: 'isolated' })
+
+		expect(isolated).not.toBe(Container.createOrGet())
+		expect(isolated.getParent()).toBeUndefined()
+		expect(Container.createOrGet().hasProvider('VALUE')).toBe(false)
+		expect(await isolated.resolve<string>('VALUE')).toBe('isolated')
+	})
+
+	test('should resolve inherited providers from the parent', async () => {
+		const parent = Container.createOrGet()
+		parent.register(BasicService)
+		const child = parent.createChild()
+
+		expect(child.getParent()).toBe(parent)
+		expect(child.hasProvider(BasicService)).toBe(true)
+
+		const fromChild = await child.resolve(BasicService)
+		expect(fromChild).toBe(await parent.resolve(BasicService))
+		expect(child.getInstance(BasicService)).toBe(fromChild)
+		expect(child.getInstanceOrThrow(BasicService)).toBe(fromChild)
+		expect(child.getInstancesMap().has(BasicService)).toBe(false)
+	})
+
+	test('should let child registrations shadow parent tokens', async () => {
+		const parent = Container.createOrGet()
+		parent.register({ provide: 'TENANT', useValue: 'default' })
+		const child = parent.createChild()
+		child.register({ provide: 'TENANT', useValue: 'acme' })
+
+		@Injectable()
+		class TenantService {
+			constructor(@Inject('TENANT') public tenant: string) {}
+		}
+
+		parent.register(TenantService)
+		child.register(TenantService)
+
+		expect((await child.resolve(TenantService)).tenant).toBe('acme')
+		expect((await parent.resolve(TenantService)).tenant).toBe('default')
+	})
+
+	test('should resolve child providers depending on parent providers', async () => {
+		const parent = Container.createOrGet()
+		parent.register(BasicService)
+		const child = parent.createChild()
+		child.register(DependentService)
+
+		const dependent = await child.resolve(DependentService)
+
+		expect(dependent.basic).toBe(await parent.resolve(BasicService))
+		expect(child.calculateWeight(DependentService)).toBe(1)
+		expect(parent.hasProvider(DependentService)).toBe(false)
+	})
+
+	test('should only destroy its own instances', async () => {
+		const parent = Container.createOrGet()
+		const destroyed: string[] = []
+
+		@Injectable()
+		class ParentService implements OnDestroy {
+			onDestroy() {
+				destroyed.push('parent')
+			}
+		}
+
+		@Injectable()
+		class ChildService implements OnDestroy {
+			constructor(public parentService: ParentService) {}
+
+			onDestroy() {
+				destroyed.push('child')
+			}
+		}
+
+		parent.register(ParentService)
+		const child = parent.createChild()
+		child.register(ChildService)
+
+		await child.resolve(ChildService)
+		await child.destroy()
+
+		expect(destroyed).toEqual(['child'])
+		expect(parent.getInstance(ParentService)).toBeInstanceOf(ParentService)
+		expect(child.hasProvider(ParentService)).toBe(true)
+	})
+
+	test('should share request scopes with the parent', async () => {
+		const parent = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		const child = parent.createChild()
+		child.register(RequestContext)
+
+		await parent.runInScope(async () => {
+			expect(await child.resolve(RequestContext)).toBe(
+				await child.resolve(RequestContext),
+			)
+		})
+	})
+})
+
+// ============================================================================
+// Group Encapsulation Tests
+// ============================================================================
+
+describe('Group Encapsulation', () => {
+	beforeEach(resetContainer)
+
+	test('should allow injecting private providers inside the same group', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class UserRepository {}
+
+		@Injectable()
+		class UserService {
+			constructor(public repo: UserRepository) {}
+		}
+
+		@Group({ providers: [UserRepository, UserService], exports: [UserService] })
+		class UserModule {}
+
+		await container.bootstrap([UserModule])
+
+		const service = container.getInstance(UserService)
+		expect(service?.repo).toBeInstanceOf(UserRepository)
+	})
+
+	test('should reject injecting a private provider from another group', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class DbPool {}
+
+		@Group({ providers: [DbPool], exports: [] })
+		class DatabaseModule {}
+
+		@Injectable()
+		class UserService {
+			constructor(public pool: DbPool) {}
+		}
+
+		@Group({ imports: [DatabaseModule], providers: [UserService] })
+		class UserModule {}
+
+		await container.bootstrap({ providers: [UserModule], validate: false })
+
+		await expect(container.resolve(UserService)).rejects.toThrow(
+			'DbPool is private to group DatabaseModule and UserService belongs to group UserModule',
+		)
+	})
+
+	test('should reject injecting a private provider from an ungrouped provider', async () => {
+		const container = Container.createOrGet()
+
+		@Group({
+			providers: [{ provide: 'DB_POOL', useValue: {} }],
+			exports: [],
+		})
+		class DatabaseModule {}
+
+		container.register({
+			provide: 'REPORTS',
+			useFactory: (pool: unknown) => ({ pool }),
+			deps: ['DB_POOL'],
+		})
+		await container.bootstrap({ providers: [DatabaseModule], validate: false })
+
+		await expect(container.resolve('REPORTS')).rejects.toThrow(
+			'DB_POOL is private to group DatabaseModule and REPORTS is not part of any group',
+		)
+	})
+
+	test('should require importing a group to inject its exports', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class DbPool {}
+
+		@Group({ providers: [DbPool], exports: [DbPool] })
+		class DatabaseModule {}
+
+		@Injectable()
+		class UserService {
+			constructor(public pool: DbPool) {}
+		}
+
+		@Group({ providers: [UserService] })
+		class UserModule {}
+
+		@Injectable()
+		class OrderService {
+			constructor(public pool: DbPool) {}
+		}
+
+		@Group({ imports: [DatabaseModule], providers: [OrderService] })
+		class OrderModule {}
+
+		await container.bootstrap({
+			providers: [DatabaseModule, UserModule, OrderModule],
+			validate: false,
+		})
+
+		expect(container.getInstance(UserService)).toBeUndefined()
+		expect(container.getInstance(OrderService)?.pool).toBeInstanceOf(DbPool)
+		await expect(container.resolve(UserService)).rejects.toThrow(
+			'group UserModule does not import group DatabaseModule',
+		)
+	})
+
+	test('should let a group inject the exports of groups nested in its providers', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class DbPool {}
+
+		@Injectable()
+		class DbDriver {}
+
+		@Group({ providers: [DbPool, DbDriver], exports: [DbPool] })
+		class Inner {}
+
+		@Injectable()
+		class Repository {
+			constructor(public pool: DbPool) {}
+		}
+
+		@Injectable()
+		class Migrator {
+			constructor(public driver: DbDriver) {}
+		}
+
+		@Group({ providers: [Inner, Repository, Migrator] })
+		class Outer {}
+
+		await container.bootstrap({ providers: [Outer], validate: false })
+
+		expect(container.getInstance(Repository)?.pool).toBeInstanceOf(DbPool)
+		// Non-exported providers stay private to the nested group
+		await expect(container.resolve(Migrator)).rejects.toThrow(
+			'DbDriver is private to group Inner',
+		)
+	})
+
+	test('should register imported groups and keep groups without exports public', async () => {
+		const container = Container.createOrGet()
+
+		@Group({ providers: [BasicService] })
+		class SharedModule {}
+
+		@Group({ imports: [SharedModule], providers: [DependentService] })
+		class AppModule {}
+
+		await container.bootstrap([AppModule])
+
+		expect(container.getInstance(DependentService)?.basic).toBeInstanceOf(
+			BasicService,
+		)
+		expect(getGroupMetadata(AppModule)?.imports).toEqual([SharedModule])
+	})
+})
+
+// ============================================================================
+// Dynamic Group Tests
+// ============================================================================
+
+describe('Dynamic Groups', () => {
+	beforeEach(resetContainer)
+
+	interface DbOptions {
+		url: string
+	}
+
+	const DB_OPTIONS = Symbol('DB_OPTIONS')
+
+	@Injectable()
+	class DatabaseService {
+		constructor(@Inject(DB_OPTIONS) public options: DbOptions) {}
+	}
+
+	@Group({ providers: [DatabaseService], exports: [DatabaseService] })
+	class DatabaseModule {
+		static forRoot(options: DbOptions): DynamicGroup {
+			return {
+				group: DatabaseModule,
+				providers: [{ provide: DB_OPTIONS, useValue: options }],
+			}
+		}
+
+		static forRootAsync(options: GroupAsyncOptions<DbOptions>): DynamicGroup {
+			return {
+				group: DatabaseModule,
+				imports: options.imports,
+				providers: [
+					{
+						provide: DB_OPTIONS,
+						useFactory: options.useFactory,
+						deps: options.deps,
+					},
+				],
+			}
+		}
+	}
+
+	test('should detect dynamic groups', () => {
+		expect(isDynamicGroup(DatabaseModule.forRoot({ url: 'db' }))).toBe(true)
+		expect(isDynamicGroup(DatabaseModule)).toBe(false)
+		expect(isDynamicGroup({ group: BasicService })).toBe(false)
+	})
+
+	test('should bootstrap a dynamic group with its configured providers', async () => {
+		const container = Container.createOrGet()
+
+		await container.bootstrap([
+			DatabaseModule.forRoot({ url: 'postgres://db' }),
+		])
+
+		const db = container.getInstance(DatabaseService)
+		expect(db?.options).toEqual({ url: 'postgres://db' })
+	})
+
+	test('should support async configuration with factory deps and imports', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class ConfigService {
+			get(key: string) {
+				return { url: `from-config:${key}` }
+			}
+		}
+
+		@Group({ providers: [ConfigService], exports: [ConfigService] })
+		class ConfigModule {}
+
+		await container.bootstrap([
+			DatabaseModule.forRootAsync({
+				imports: [ConfigModule],
+				useFactory: async (config: ConfigService) => config.get('database'),
+				deps: [ConfigService],
+			}),
+		])
+
+		const db = container.getInstance(DatabaseService)
+		expect(db?.options).toEqual({ url: 'from-config:database' })
+	})
+
+	test('should keep dynamic providers private unless exported', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Reporter {
+			constructor(@Inject(DB_OPTIONS) public options: DbOptions) {}
+		}
+
+		@Group({
+			imports: [DatabaseModule.forRoot({ url: 'db' })],
+			providers: [Reporter],
+		})
+		class ReportModule {}
+
+		await container.bootstrap({ providers: [ReportModule], validate: false })
+
+		expect(container.getInstance(DatabaseService)).toBeInstanceOf(
+			DatabaseService,
+		)
+		await expect(container.resolve(Reporter)).rejects.toThrow(
+			'is private to group DatabaseModule',
+		)
+	})
+
+	test('should accept dynamic groups in group providers', async () => {
+		const container = Container.createOrGet()
+
+		@Group({ providers: [DatabaseModule.forRoot({ url: 'nested' })] })
+		class AppModule {}
+
+		await container.bootstrap({ providers: [AppModule] })
+
+		expect(container.getInstance(DatabaseService)?.options.url).toBe('nested')
+	})
+
+	test('should include providers of dynamic groups listed in deps', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Schema {}
+
+		@Injectable()
+		class Migrations {
+			constructor(public schema: Schema) {}
+		}
+
+		@Group({})
+		class MigrationModule {
+			static forRoot(): DynamicGroup {
+				return { group: MigrationModule, providers: [Schema, Migrations] }
+			}
+		}
+
+		@Injectable()
+		class Seeder {}
+
+		@Group({ providers: [Seeder], deps: [MigrationModule] })
+		class SeedModule {}
+
+		await container.bootstrap([MigrationModule.forRoot(), SeedModule])
+		container.register({
+			provide: 'REPORTS',
+			useClass: Seeder,
+			deps: [MigrationModule.forRoot()],
+		})
+		container.register({
+			provide: 'AUDIT',
+			useClass: Seeder,
+			deps: [SeedModule],
+		})
+
+		// Migrations (weight 1) is only provided by forRoot()
+		expect(container.calculateWeight('REPORTS')).toBe(2)
+		// The group class uses the dynamic configuration registered by bootstrap()
+		expect(container.calculateWeight('AUDIT')).toBe(2)
+	})
+})
+
+// ============================================================================
+// Multi Provider Tests
+// ============================================================================
+
+describe('Multi Providers', () => {
+	beforeEach(resetContainer)
+
+	interface Middleware {
+		name: string
+	}
+
+	const MIDDLEWARE = Symbol('MIDDLEWARE')
+
+	test('should collect all contributions in registration order', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class AuthMiddleware implements Middleware {
+			name = 'auth'
+		}
+
+		container.register({
+			provide: MIDDLEWARE,
+			useValue: { name: 'cors' },
+			multi: true,
+		})
+		container.register({
+			provide: MIDDLEWARE,
+			useClass: AuthMiddleware,
+			multi: true,
+		})
+		container.register({
+			provide: MIDDLEWARE,
+			useFactory: () => ({ name: 'logging' }),
+			multi: true,
+		})
+
+		const middlewares = await container.resolve<Middleware[]>(MIDDLEWARE)
+
+		expect(middlewares.map((m) => m.name)).toEqual(['cors', 'auth', 'logging'])
+		expect(middlewares[1]).toBeInstanceOf(AuthMiddleware)
+		expect(await container.resolve<Middleware[]>(MIDDLEWARE)).toBe(middlewares)
+	})
+
+	test('should inject contributions as an array', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Pipeline {
+			constructor(@Inject(MIDDLEWARE) public middlewares: Middleware[]) {}
+		}
+
+		await container.bootstrap([
+			{ provide: MIDDLEWARE, useValue: { name: 'a' }, multi: true },
+			{ provide: MIDDLEWARE, useValue: { name: 'b' }, multi: true },
+			Pipeline,
+		])
+
+		const pipeline = container.getInstance(Pipeline)
+		expect(pipeline?.middlewares.map((m) => m.name)).toEqual(['a', 'b'])
+	})
+
+	test('should reject mixing multi and non-multi providers', () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'SINGLE', useValue: 1 })
+		expect(() =>
+			container.register({ provide: 'SINGLE', useValue: 2, multi: true }),
+		).toThrow('Cannot mix multi and non-multi providers for token: SINGLE')
+
+		container.register({ provide: 'MULTI', useValue: 1, multi: true })
+		expect(() => container.register({ provide: 'MULTI', useValue: 2 })).toThrow(
+			'Cannot mix multi and non-multi providers for token: MULTI',
+		)
+	})
+
+	test('should reject non-singleton scopes on multi providers', () => {
+		const container = Container.createOrGet()
+
+		expect(() =>
+			container.register({
+				provide: 'MULTI',
+				useFactory: () => 1,
+				multi: true,
+				scope: 'transient',
+			}),
+		).toThrow('Multi providers are always singletons')
+	})
+
+	test('should reject contributions after the token has been resolved', async () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'MULTI', useValue: 'a', multi: true })
+		expect(container.calculateWeight('MULTI')).toBe(0)
+
+		container.register(BasicService)
+		container.register({
+			provide: 'MULTI',
+			useClass: DependentService,
+			multi: true,
+		})
+		expect(container.calculateWeight('MULTI')).toBe(1)
+
+		expect(await container.resolve<unknown[]>('MULTI')).toHaveLength(2)
+		expect(() =>
+			container.register({ provide: 'MULTI', useValue: 'c', multi: true }),
+		).toThrow(
+			'Cannot add a multi provider contribution after the token has been resolved: MULTI',
+		)
+		expect(await container.resolve<unknown[]>('MULTI')).toHaveLength(2)
+	})
+
+	test('should account for every contribution in weights and graph', () => {
+		const container = Container.createOrGet()
+
+		container.register(BasicService)
+		container.register(DependentService)
+		container.register({
+			provide: 'HEALTH',
+			useClass: BasicService,
+			multi: true,
+		})
+		container.register({
+			provide: 'HEALTH',
+			useClass: DependentService,
+			multi: true,
+		})
+		container.register({
+			provide: 'HEALTH',
+			useFactory: (service: MultiDependencyService) => service,
+			deps: [MultiDependencyService],
+			multi: true,
+		})
+		container.register(MultiDependencyService)
+
+		expect(container.calculateWeight('HEALTH')).toBe(3)
+
+		const node = container.getDependencyGraph().get('HEALTH')
+		expect(node?.contributions).toBe(3)
+		expect(node?.dependencies).toEqual([
+			'BasicService',
+			'MultiDependencyService',
+		])
+		expect(
+			container.getDependencyGraph().get('BasicService')?.contributions,
+		).toBe(1)
+	})
+
+	test('should call onDestroy for each contribution', async () => {
+		const container = Container.createOrGet()
+		const destroyed: string[] = []
+
+		@Injectable()
+		class Indicator implements OnDestroy {
+			onDestroy() {
+				destroyed.push('instance')
+			}
+		}
+
+		container.register({
+			provide: 'INDICATORS',
+			useClass: Indicator,
+			multi: true,
+		})
+		container.register({
+			provide: 'INDICATORS',
+			useFactory: () => ({}),
+			multi: true,
+			onDestroy: () => {
+				destroyed.push('provider')
+			},
+		})
+
+		await container.resolve('INDICATORS')
+		await container.destroy()
+
+		expect(destroyed).toEqual(['provider', 'instance'])
+	})
+})
+
+// ============================================================================
+// Alias Provider Tests
+// ============================================================================
+
+describe('Alias Providers (useExisting)', () => {
+	beforeEach(resetContainer)
+
+	test('should resolve to the same instance as the target', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class PinoLogger {}
+
+		container.register(PinoLogger)
+		container.register({ provide: 'Logger', useExisting: PinoLogger })
+
+		const logger = await container.resolve<PinoLogger>('Logger')
+
+		expect(logger).toBeInstanceOf(PinoLogger)
+		expect(logger).toBe(await container.resolve(PinoLogger))
+		expect(container.getInstance<PinoLogger>('Logger')).toBe(logger)
+		expect(container.getInstanceOrThrow<PinoLogger>('Logger')).toBe(logger)
+		expect(container.getInstancesMap().has('Logger')).toBe(false)
+	})
+
+	test('should inject the target instance through the alias', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class PinoLogger {}
+
+		@Injectable()
+		class UserService {
+			constructor(
+				@Inject('Logger') public logger: PinoLogger,
+				public pino: PinoLogger,
+			) {}
+		}
+
+		await container.bootstrap([
+			PinoLogger,
+			{ provide: 'Logger', useExisting: PinoLogger },
+			UserService,
+		])
+
+		const service = container.getInstance(UserService)
+		expect(service?.logger).toBe(service?.pino)
+	})
+
+	test('should follow alias chains and share the target scope', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'transient' })
+		class Builder {}
+
+		container.register(Builder)
+		container.register({ provide: 'B', useExisting: Builder })
+		container.register({ provide: 'A', useExisting: 'B' })
+
+		expect(await container.resolve('A')).toBeInstanceOf(Builder)
+		expect(await container.resolve('A')).not.toBe(await container.resolve('A'))
+		expect(container.getDependencyGraph().get('A')?.scope).toBe('transient')
+	})
+
+	test('should detect circular aliases', async () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'A', useExisting: 'B' })
+		container.register({ provide: 'B', useExisting: 'A' })
+
+		await expect(container.resolve('A')).rejects.toThrow(
+			'Circular dependency detected',
+		)
+		expect(container.getInstance('A')).toBeUndefined()
+	})
+
+	test('should call onDestroy only once for aliased instances', async () => {
+		const container = Container.createOrGet()
+		let destroyCount = 0
+
+		@Injectable()
+		class Connection implements OnDestroy {
+			onDestroy() {
+				destroyCount++
+			}
+		}
+
+		container.register(Connection)
+		container.register({ provide: 'DB', useExisting: Connection })
+		await container.resolve('DB')
+		await container.destroy()
+
+		expect(destroyCount).toBe(1)
+	})
+
+	test('should report alias edges in weights and graph', () => {
+		const container = Container.createOrGet()
+
+		container.register(BasicService)
+		container.register(DependentService)
+		container.register({ provide: 'Dependent', useExisting: DependentService })
+
+		expect(container.calculateWeight('Dependent')).toBe(2)
+
+		const node = container.getDependencyGraph().get('Dependent')
+		expect(node?.aliasOf).toBe('DependentService')
+		expect(node?.dependencies).toEqual(['DependentService'])
+		expect(
+			container.getDependencyGraph().get('DependentService')?.aliasOf,
+		).toBeUndefined()
+	})
+})
+
+// ============================================================================
+// Optional Dependencies Tests
+// ============================================================================
+
+describe('Optional Dependencies', () => {
+	beforeEach(resetContainer)
+
+	test('should inject undefined for missing optional class dependencies', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class MetricsService {}
+
+		@Injectable()
+		class HttpClient {
+			constructor(
+				@Optional() public metrics?: MetricsService,
+				@Optional() @Inject('TRACER') public tracer?: unknown,
+			) {}
+		}
+
+		const client = await container.resolve(HttpClient)
+
+		expect(client.metrics).toBeUndefined()
+		expect(client.tracer).toBeUndefined()
+	})
+
+	test('should inject optional class dependencies when provided', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class MetricsService {}
+
+		@Injectable()
+		class HttpClient {
+			constructor(
+				@Optional() public metrics?: MetricsService,
+				@Optional() @Inject('TRACER') public tracer?: { name: string },
+			) {}
+		}
+
+		await container.bootstrap([
+			MetricsService,
+			{ provide: 'TRACER', useValue: { name: 'otel' } },
+			HttpClient,
+		])
+
+		const client = container.getInstanceOrThrow(HttpClient)
+		expect(client.metrics).toBeInstanceOf(MetricsService)
+		expect(client.tracer).toEqual({ name: 'otel' })
+	})
+
+	test('should still throw for missing required dependencies', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class HttpClient {
+			constructor(
+				@Optional() @Inject('TRACER') public tracer: unknown,
+				@Inject('CONFIG') public config: unknown,
+			) {}
+		}
+
+		await expect(container.resolve(HttpClient)).rejects.toThrow(
+			'No provider found for token: CONFIG',
+		)
+	})
+
+	test('should inject defaults for missing optional factory dependencies', async () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'HOST', useValue: 'localhost' })
+		container.register({
+			provide: 'URL',
+			useFactory: (host: string, port: number, tracer?: unknown) =>
+				`${host}:${port}:${String(tracer)}`,
+			deps: [
+				'HOST',
+				{ token: 'PORT', optional: true, default: 8080 },
+				{ token: 'TRACER', optional: true },
+			],
+		})
+
+		expect(await container.resolve<string>('URL')).toBe(
+			'localhost:8080:undefined',
+		)
+	})
+
+	test('should resolve optional factory dependencies when provided', async () => {
+		const container = Container.createOrGet()
+
+		await container.bootstrap([
+			{ provide: 'PORT', useValue: 3000 },
+			{
+				provide: 'URL',
+				useFactory: (port: number) => `localhost:${port}`,
+				deps: [{ token: 'PORT', optional: true, default: 8080 }],
+			},
+		])
+
+		expect(container.getInstance<string>('URL')).toBe('localhost:3000')
+	})
+
+	test('should leave missing optional dependencies out of the graph', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class MetricsService {}
+
+		@Injectable()
+		class HttpClient {
+			constructor(@Optional() public metrics?: MetricsService) {}
+		}
+
+		await container.bootstrap([
+			HttpClient,
+			{
+				provide: 'URL',
+				useFactory: (port: number) => `localhost:${port}`,
+				deps: [{ token: 'PORT', optional: true, default: 8080 }],
+			},
+		])
+
+		const graph = container.getDependencyGraph()
+		expect(graph.get('HttpClient')?.dependencies).toEqual([])
+		expect(graph.get('HttpClient')?.weight).toBe(0)
+		expect(graph.get('URL')?.dependencies).toEqual([])
+	})
+})
+
+// ============================================================================
+// Typed Token Tests
+// ============================================================================
+
+describe('Typed Tokens', () => {
+	beforeEach(resetContainer)
+
+	interface AppConfig {
+		port: number
+	}
+
+	test('should infer the value type from the token', async () => {
+		const container = Container.createOrGet()
+		const CONFIG = new Token<AppConfig>('CONFIG')
+
+		container.register({ provide: CONFIG, useValue: { port: 3000 } })
+
+		const config: AppConfig = await container.resolve(CONFIG)
+		expect(config.port).toBe(3000)
+		expect(container.getInstanceOrThrow(CONFIG).port).toBe(3000)
+	})
+
+	test('should reject provider values of the wrong type', () => {
+		const container = Container.createOrGet()
+		const CONFIG = new Token<AppConfig>('CONFIG')
+
+		// @ts-expect-error - useValue must match the token type
+		container.register({ provide: CONFIG, useValue: 'not a config' })
+	})
+
+	test('should not collide with tokens of the same description', async () => {
+		const container = Container.createOrGet()
+		const first = new Token<string>('NAME')
+		const second = new Token<string>('NAME')
+
+		await container.bootstrap([
+			{ provide: first, useValue: 'first' },
+			{ provide: second, useValue: 'second' },
+			{ provide: 'NAME', useValue: 'string' },
+		])
+
+		expect(container.getInstance(first)).toBe('first')
+		expect(container.getInstance(second)).toBe('second')
+		expect(container.getInstance<string>('NAME')).toBe('string')
+	})
+
+	test('should inject typed tokens into classes and factories', async () => {
+		const container = Container.createOrGet()
+		const CONFIG = new Token<AppConfig>('CONFIG')
+		const URL = new Token<string>('URL')
+
+		@Injectable()
+		class Server {
+			constructor(
+				@Inject(CONFIG) public config: AppConfig,
+				@Inject(URL) public url: string,
+			) {}
+		}
+
+		await container.bootstrap([
+			{ provide: CONFIG, useValue: { port: 8080 } },
+			{
+				provide: URL,
+				useFactory: (config: AppConfig) => `http://localhost:${config.port}`,
+				deps: [CONFIG],
+			},
+			Server,
+		])
+
+		const server = container.getInstanceOrThrow(Server)
+		expect(server.url).toBe('http://localhost:8080')
+		expect(container.getDependencyGraph().get('Server')?.dependencies).toEqual([
+			'Token(CONFIG)',
+			'Token(URL)',
+		])
+	})
+
+	test('should use the default factory when no provider is registered', async () => {
+		const container = Container.createOrGet()
+		let calls = 0
+		const CLOCK = new Token<{ now: () => number }>('CLOCK', {
+			factory: () => {
+				calls++
+				return { now: () => 42 }
+			},
+		})
+
+		const child = container.createChild()
+
+		expect(child.hasProvider(CLOCK)).toBe(true)
+		const clock = await child.resolve(CLOCK)
+		expect(clock.now()).toBe(42)
+		expect(await container.resolve(CLOCK)).toBe(clock)
+		expect(calls).toBe(1)
+	})
+
+	test('should prefer a registered provider over the default factory', async () => {
+		const container = Container.createOrGet()
+		const CLOCK = new Token<{ now: () => number }>('CLOCK', {
+			factory: () => ({ now: () => 42 }),
+		})
+
+		container.register({ provide: CLOCK, useValue: { now: () => 7 } })
+
+		expect((await container.resolve(CLOCK)).now()).toBe(7)
+	})
+
+	test('should name tokens by description in errors', async () => {
+		const container = Container.createOrGet()
+		const MISSING = new Token<string>('MISSING')
+
+		await expect(container.resolve(MISSING)).rejects.toThrow(
+			'No provider found for token: Token(MISSING)',
+		)
+	})
+})
+
+// ============================================================================
+// Concurrent Resolution Tests
+// ============================================================================
+
+describe('Concurrent Resolution', () => {
+	beforeEach(resetContainer)
+
+	test('should share one instance between concurrent resolutions', async () => {
+		const container = Container.createOrGet()
+		let created = 0
+		let initialized = 0
+
+		@Injectable()
+		class Database implements OnInit {
+			constructor() {
+				created++
+			}
+
+			async onInit() {
+				await new Promise((resolve) => setTimeout(resolve, 5))
+				initialized++
+			}
+		}
+
+		container.register(Database)
+
+		const [first, second, third] = await Promise.all([
+			container.resolve(Database),
+			container.resolve(Database),
+			container.resolve(Database),
+		])
+
+		expect(first).toBe(second)
+		expect(second).toBe(third)
+		expect(created).toBe(1)
+		expect(initialized).toBe(1)
+	})
+
+	test('should not report false cycles for unrelated concurrent resolutions', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database implements OnInit {
+			async onInit() {
+				await new Promise((resolve) => setTimeout(resolve, 5))
+			}
+		}
+
+		@Injectable()
+		class UserRepository {
+			constructor(public db: Database) {}
+		}
+
+		@Injectable()
+		class OrderRepository {
+			constructor(public db: Database) {}
+		}
+
+		container.register(Database)
+		container.register(UserRepository)
+		container.register(OrderRepository)
+
+		const [users, orders] = await Promise.all([
+			container.resolve(UserRepository),
+			container.resolve(OrderRepository),
+		])
+
+		expect(users.db).toBe(orders.db)
+	})
+
+	test('should share in-flight factory and multi provider resolutions', async () => {
+		const container = Container.createOrGet()
+		let calls = 0
+
+		container.register({
+			provide: 'CONNECTION',
+			useFactory: async () => {
+				calls++
+				await new Promise((resolve) => setTimeout(resolve, 5))
+				return { id: calls }
+			},
+		})
+		container.register({ provide: 'RULES', useValue: 'a', multi: true })
+		container.register({ provide: 'RULES', useValue: 'b', multi: true })
+
+		const [first, second] = await Promise.all([
+			container.resolve<{ id: number }>('CONNECTION'),
+			container.resolve<{ id: number }>('CONNECTION'),
+		])
+		const [rulesA, rulesB] = await Promise.all([
+			container.resolve<string[]>('RULES'),
+			container.resolve<string[]>('RULES'),
+		])
+
+		expect(first).toBe(second)
+		expect(calls).toBe(1)
+		expect(rulesA).toBe(rulesB)
+	})
+
+	test('should still create transient instances for each concurrent resolution', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'transient' })
+		class Job {}
+
+		const [first, second] = await Promise.all([
+			container.resolve(Job),
+			container.resolve(Job),
+		])
+
+		expect(first).not.toBe(second)
+	})
+
+	test('should report cycles instead of waiting forever across concurrent resolutions', async () => {
+		const container = Container.createOrGet()
+
+		// Both resolutions wait for SLOW before reaching each other
+		container.register({
+			provide: 'SLOW',
+			useFactory: () => new Promise((resolve) => setTimeout(resolve, 5)),
+		})
+		container.register({
+			provide: 'A',
+			useFactory: async (_slow: unknown, b: unknown) => ({ b }),
+			deps: ['SLOW', 'B'],
+		})
+		container.register({
+			provide: 'B',
+			useFactory: async (_slow: unknown, a: unknown) => ({ a }),
+			deps: ['SLOW', 'A'],
+		})
+
+		const results = await Promise.allSettled([
+			container.resolve('A'),
+			container.resolve('B'),
+		])
+
+		for (const result of results) {
+			expect(result.status).toBe('rejected')
+			expect((result as PromiseRejectedResult).reason.message).toContain(
+				'Circular dependency detected!',
+			)
+		}
+	})
+
+	test('should allow resolving the same token again after a failure', async () => {
+		const container = Container.createOrGet()
+		let attempts = 0
+
+		container.register({
+			provide: 'FLAKY',
+			useFactory: () => {
+				attempts++
+				if (attempts === 1) {
+					throw new Error('Connection refused')
+				}
+				return 'connected'
+			},
+		})
+
+		await expect(container.resolve('FLAKY')).rejects.toThrow(
+			'Connection refused',
+		)
+		expect(await container.resolve<string>('FLAKY')).toBe('connected')
+	})
+})
+
+// ============================================================================
+// Property Injection Tests
+// ============================================================================
+
+describe('Property Injection', () => {
+	beforeEach(resetContainer)
+
+	test('should inject decorated fields before onInit', async () => {
+		const container = Container.createOrGet()
+		const LOGGER = new Token<{ log: (msg: string) => string }>('LOGGER')
+		let loggerInOnInit: unknown
+
+		@Injectable()
+		class UserService implements OnInit {
+			@Inject(LOGGER) logger!: { log: (msg: string) => string }
+
+			constructor() {
+				expect(this.logger).toBeUndefined()
+			}
+
+			onInit() {
+				loggerInOnInit = this.logger
+			}
+		}
+
+		await container.bootstrap([
+			{ provide: LOGGER, useValue: { log: (msg: string) => `log: ${msg}` } },
+			UserService,
+		])
+
+		const service = container.getInstanceOrThrow(UserService)
+		expect(service.logger.log('hi')).toBe('log: hi')
+		expect(loggerInOnInit).toBe(service.logger)
+	})
+
+	test('should inject fields declared on base classes', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database {}
+
+		@Injectable()
+		class Clock {}
+
+		abstract class BaseRepository {
+			@Inject(Database) db!: Database
+		}
+
+		@Injectable()
+		class UserRepository extends BaseRepository {
+			@Inject(Clock) clock!: Clock
+		}
+
+		@Injectable()
+		class OrderRepository extends BaseRepository {}
+
+		await container.bootstrap([
+			Database,
+			Clock,
+			UserRepository,
+			OrderRepository,
+		])
+
+		const users = container.getInstanceOrThrow(UserRepository)
+		const orders = container.getInstanceOrThrow(OrderRepository)
+		expect(users.db).toBeInstanceOf(Database)
+		expect(users.clock).toBeInstanceOf(Clock)
+		expect(orders.db).toBe(users.db)
+		expect(
+			container.getDependencyGraph().get('OrderRepository')?.dependencies,
+		).toEqual(['Database'])
+	})
+
+	test('should include fields in weights and the dependency graph', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Config {}
+
+		@Injectable()
+		class Database {
+			constructor(public config: Config) {}
+		}
+
+		@Injectable()
+		class UserService {
+			@Inject(Database) db!: Database
+		}
+
+		container.register(Config)
+		container.register(Database)
+		container.register(UserService)
+
+		const node = container.getDependencyGraph().get('UserService')
+		expect(node?.dependencies).toEqual(['Database'])
+		expect(container.calculateWeight(UserService)).toBe(2)
+	})
+
+	test('should inject lazy fields as LazyRef', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class ServiceA {
+			@Inject(forwardRef(() => ServiceB)) b!: LazyRef<ServiceB>
+		}
+
+		@Injectable()
+		class ServiceB {
+			@Lazy(ServiceA) a!: LazyRef<ServiceA>
+		}
+
+		await container.bootstrap([ServiceA, ServiceB])
+
+		const a = container.getInstanceOrThrow(ServiceA)
+		const b = container.getInstanceOrThrow(ServiceB)
+		expect(a.b).toBeInstanceOf(LazyRef)
+		expect(a.b.value).toBe(b)
+		expect(b.a.value).toBe(a)
+		expect(
+			container.getDependencyGraph().get('ServiceA')?.dependencies,
+		).toEqual([])
+	})
+
+	test('should support optional fields', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class HttpClient {
+			@Optional() @Inject('TRACER') tracer?: unknown
+			@Optional() @Inject('CACHE') cache?: string
+		}
+
+		container.register({ provide: 'CACHE', useValue: 'redis' })
+
+		const client = await container.resolve(HttpClient)
+		expect(client.tracer).toBeUndefined()
+		expect(client.cache).toBe('redis')
+	})
+
+	test('should inject optional fields without @Inject() by their type', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Metrics {}
+
+		@Injectable()
+		class Tracer {}
+
+		interface Cache {
+			get(key: string): unknown
+		}
+
+		@Injectable()
+		class HttpClient {
+			@Optional() metrics?: Metrics
+			@Optional() tracer?: Tracer
+			@Optional() cache?: Cache
+		}
+
+		container.register(Metrics)
+		container.register(HttpClient)
+
+		const client = await container.resolve(HttpClient)
+		expect(client.metrics).toBeInstanceOf(Metrics)
+		expect(client.tracer).toBeUndefined()
+		expect(client.cache).toBeUndefined()
+		expect(container.calculateWeight(HttpClient)).toBe(1)
+	})
+
+	test('should throw for missing required fields', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class HttpClient {
+			@Inject('TRACER') tracer!: unknown
+		}
+
+		await expect(container.resolve(HttpClient)).rejects.toThrow(
+			'No provider found for token: TRACER',
+		)
+	})
+})
+
+// ============================================================================
+// Inheritance Tests
+// ============================================================================
+
+describe('Inheritance', () => {
+	beforeEach(resetContainer)
+
+	test('should reuse base class constructor metadata in subclasses without a constructor', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database {}
+
+		@Injectable()
+		abstract class BaseRepository {
+			constructor(
+				public db: Database,
+				@Inject('TABLE_PREFIX') public prefix: string,
+			) {}
+		}
+
+		@Injectable()
+		class UserRepository extends BaseRepository {}
+
+		class OrderRepository extends BaseRepository {}
+
+		await container.bootstrap([
+			Database,
+			{ provide: 'TABLE_PREFIX', useValue: 'app_' },
+			UserRepository,
+			OrderRepository,
+		])
+
+		const users = container.getInstanceOrThrow(UserRepository)
+		const orders = container.getInstanceOrThrow(OrderRepository)
+		expect(users.db).toBeInstanceOf(Database)
+		expect(users.prefix).toBe('app_')
+		expect(orders.db).toBe(users.db)
+		expect(orders.prefix).toBe('app_')
+		expect(
+			container.getDependencyGraph().get('UserRepository')?.dependencies,
+		).toEqual(['Database', 'TABLE_PREFIX'])
+	})
+
+	test('should use only the own constructor metadata of subclasses with a constructor', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database {}
+
+		@Injectable()
+		class Clock {}
+
+		@Injectable()
+		class BaseRepository {
+			constructor(@Inject('TABLE_PREFIX') public prefix: string) {}
+		}
+
+		@Injectable()
+		class AuditRepository extends BaseRepository {
+			constructor(
+				public clock: Clock,
+				@Optional() @Inject('TRACER') public tracer?: unknown,
+			) {
+				super('audit_')
+			}
+		}
+
+		@Injectable()
+		class UserRepository extends BaseRepository {
+			constructor(public db: Database) {
+				super('user_')
+			}
+		}
+
+		await container.bootstrap([
+			Database,
+			Clock,
+			{ provide: 'TABLE_PREFIX', useValue: 'app_' },
+			BaseRepository,
+			AuditRepository,
+			UserRepository,
+		])
+
+		const audit = container.getInstanceOrThrow(AuditRepository)
+		const users = container.getInstanceOrThrow(UserRepository)
+		expect(audit.clock).toBeInstanceOf(Clock)
+		expect(audit.prefix).toBe('audit_')
+		expect(users.db).toBeInstanceOf(Database)
+		expect(users.prefix).toBe('user_')
+		expect(container.getInstanceOrThrow(BaseRepository).prefix).toBe('app_')
+
+		const graph = container.getDependencyGraph()
+		expect(graph.get('BaseRepository')?.dependencies).toEqual(['TABLE_PREFIX'])
+		expect(graph.get('AuditRepository')?.dependencies).toEqual(['Clock'])
+		expect(graph.get('UserRepository')?.dependencies).toEqual(['Database'])
+	})
+
+	test('should merge injectable options of base classes', () => {
+		@Injectable({ scope: 'transient', metadata: { layer: 'data' } })
+		class BaseRepository {}
+
+		@Injectable({ metadata: { entity: 'user' } })
+		class UserRepository extends BaseRepository {}
+
+		@Injectable({ scope: 'singleton' })
+		class CachedRepository extends UserRepository {}
+
+		class PlainRepository extends BaseRepository {}
+
+		class Unrelated {}
+
+		expect(getInjectableMetadata(UserRepository)).toEqual({
+			scope: 'transient',
+			metadata: { layer: 'data', entity: 'user' },
+		})
+		expect(getInjectableMetadata(CachedRepository)).toEqual({
+			scope: 'singleton',
+			metadata: { layer: 'data', entity: 'user' },
+		})
+		expect(getInjectableMetadata(PlainRepository)).toEqual({
+			scope: 'transient',
+			metadata: { layer: 'data' },
+		})
+		expect(getInjectableMetadata(BaseRepository)).toEqual({
+			scope: 'transient',
+			metadata: { layer: 'data' },
+		})
+		expect(getInjectableMetadata(Unrelated)).toBeUndefined()
+	})
+
+	test('should inherit the scope of the base class', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'transient' })
+		class BaseJob {}
+
+		@Injectable()
+		class EmailJob extends BaseJob {}
+
+		container.register(EmailJob)
+
+		expect(await container.resolve(EmailJob)).not.toBe(
+			await container.resolve(EmailJob),
+		)
+	})
+})
+
+// ============================================================================
+// Validation Tests
+// ============================================================================
+
+describe('Validation', () => {
+	beforeEach(resetContainer)
+
+	test('should report a valid graph', () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database {}
+
+		@Injectable()
+		class UserService {
+			constructor(public db: Database) {}
+		}
+
+		container.register(Database)
+		container.register(UserService)
+
+		expect(container.validate()).toEqual({ valid: true, issues: [] })
+	})
+
+	test('should report all missing providers with their paths', () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database {
+			constructor(@Inject('DB_URL') public url: string) {}
+		}
+
+		@Injectable()
+		class UserService {
+			@Inject('CACHE') cache!: unknown
+			constructor(public db: Database) {}
+		}
+
+		container.register(UserService)
+		container.register({
+			provide: 'MAILER',
+			useFactory: (host: string) => host,
+			deps: ['SMTP_HOST', { token: 'SMTP_PORT', optional: true }],
+		})
+
+		const { valid, issues } = container.validate()
+
+		expect(valid).toBe(false)
+		expect(
+			issues.map(({ type, token, path }) => ({ type, token, path })),
+		).toEqual([
+			{
+				type: 'missing-provider',
+				token: 'DB_URL',
+				path: ['UserService', 'Database', 'DB_URL'],
+			},
+			{
+				type: 'missing-provider',
+				token: 'CACHE',
+				path: ['UserService', 'CACHE'],
+			},
+			{
+				type: 'missing-provider',
+				token: 'SMTP_HOST',
+				path: ['MAILER', 'SMTP_HOST'],
+			},
+		])
+		expect(issues[0]?.message).toBe(
+			'No provider found for token: DB_URL (required by Database)',
+		)
+	})
+
+	test('should reject bootstrap for injected fields without a provider or token', async () => {
+		const container = Container.createOrGet()
+		let created = false
+
+		class BaseService {
+			@Inject('CACHE') cache!: unknown
+		}
+
+		@Injectable()
+		class Mailer {
+			transport?: unknown
+		}
+		// A field without a token, as left by a decorator that failed to record one
+		Reflect.defineMetadata('inject:properties', [{ key: 'transport' }], Mailer)
+
+		@Injectable()
+		class UserService extends BaseService {
+			@Inject(Mailer) mailer!: Mailer
+
+			constructor() {
+				super()
+				created = true
+			}
+		}
+
+		const error = (await container
+			.bootstrap([UserService])
+			.catch((e) => e)) as ValidationError
+
+		expect(error).toBeInstanceOf(ValidationError)
+		expect(
+			error.issues.map(({ type, token, path, propertyKey }) => ({
+				type,
+				token,
+				path,
+				propertyKey,
+			})),
+		).toEqual([
+			{
+				type: 'missing-provider',
+				token: 'CACHE',
+				path: ['UserService', 'CACHE'],
+				propertyKey: undefined,
+			},
+			{
+				type: 'undefined-parameter-type',
+				token: 'Mailer',
+				path: ['UserService', 'Mailer'],
+				propertyKey: 'transport',
+			},
+		])
+		expect(created).toBe(false)
+	})
+
+	test('should report undefined parameter types', () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database {}
+
+		class UserService {
+			constructor(
+				public db: Database,
+				public other: unknown,
+			) {}
+		}
+		// Simulate the metadata emitted for a circular import
+		Reflect.defineMetadata(
+			'design:paramtypes',
+			[Database, undefined],
+			UserService,
+		)
+
+		container.register(Database)
+		container.register(UserService)
+
+		const { issues } = container.validate()
+
+		expect(issues).toHaveLength(1)
+		expect(issues[0]).toMatchObject({
+			type: 'undefined-parameter-type',
+			token: 'UserService',
+			path: ['UserService'],
+			parameterIndex: 1,
+		})
+	})
+
+	test('should report non-lazy cycles but not lazy ones', () => {
+		const container = Container.createOrGet()
+
+		container.register({
+			provide: 'A',
+			useFactory: (b: unknown) => b,
+			deps: ['B'],
+		})
+		container.register({
+			provide: 'B',
+			useFactory: (a: unknown) => a,
+			deps: ['A'],
+		})
+		container.register(ServiceALazy)
+		container.register(ServiceBLazy)
+
+		const { issues } = container.validate()
+
+		expect(issues).toHaveLength(1)
+		expect(issues[0]).toMatchObject({
+			type: 'circular-dependency',
+			token: 'A',
+			path: ['A', 'B', 'A'],
+			message: 'Circular dependency detected: A -> B -> A',
+		})
+	})
+
+	test('should report dependencies hidden by group encapsulation', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class DbPool {}
+
+		@Injectable()
+		class Mailer {}
+
+		@Group({ providers: [DbPool, Mailer], exports: [Mailer] })
+		class InfraModule {}
+
+		@Injectable()
+		class UserService {
+			constructor(
+				public pool: DbPool,
+				@Lazy(Mailer) public mailer: LazyRef<Mailer>,
+			) {}
+		}
+
+		@Group({ providers: [UserService] })
+		class UserModule {}
+
+		await expect(
+			container.bootstrap([InfraModule, UserModule]),
+		).rejects.toBeInstanceOf(ValidationError)
+
+		const { issues } = container.validate()
+
+		expect(issues).toEqual([
+			{
+				type: 'group-access',
+				token: 'DbPool',
+				path: ['UserService', 'DbPool'],
+				message:
+					'Cannot inject DbPool into UserService: ' +
+					'DbPool is private to group InfraModule and UserService belongs to group UserModule.\n' +
+					'Add DbPool to the exports of InfraModule.',
+			},
+			expect.objectContaining({
+				type: 'group-access',
+				token: 'Mailer',
+				path: ['UserService', 'Mailer'],
+			}),
+		])
+	})
+
+	test('should fail bootstrap before instantiating anything', async () => {
+		const container = Container.createOrGet()
+		let initialized = false
+
+		@Injectable()
+		class Database implements OnInit {
+			onInit() {
+				initialized = true
+			}
+		}
+
+		@Injectable()
+		class UserService {
+			constructor(
+				public db: Database,
+				@Inject('CONFIG') public config: unknown,
+			) {}
+		}
+
+		await expect(container.bootstrap([Database, UserService])).rejects.toThrow(
+			'Container validation failed with 1 issue(s):\n' +
+				'  - No provider found for token: CONFIG (required by UserService)\n' +
+				'    Path: UserService -> CONFIG',
+		)
+		const error = await container
+			.bootstrap({ providers: [UserService], strict: true })
+			.catch((e) => e)
+		expect(error).toBeInstanceOf(ValidationError)
+		expect(error).toBeInstanceOf(ContainerError)
+		expect((error as ValidationError).issues).toEqual([
+			expect.objectContaining({
+				type: 'missing-provider',
+				token: 'CONFIG',
+				path: ['UserService', 'CONFIG'],
+			}),
+		])
+		expect(initialized).toBe(false)
+		expect(container.getInstance(Database)).toBeUndefined()
+	})
+
+	test('should skip the pre-flight when validate is false', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class UserService {
+			constructor(@Inject('CONFIG') public config: unknown) {}
+		}
+
+		await container.bootstrap({
+			providers: [{ provide: 'NAME', useValue: 'app' }, UserService],
+			validate: false,
+		})
+
+		expect(container.getInstance<string>('NAME')).toBe('app')
+		expect(container.getInstance(UserService)).toBeUndefined()
+	})
+})
+
+// ============================================================================
+// Strict Bootstrap Tests
+// ============================================================================
+
+describe('Strict Bootstrap', () => {
+	beforeEach(resetContainer)
+
+	test('should reject with every failure and its resolution path', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database implements OnInit {
+			onInit() {
+				throw new Error('Connection refused')
+			}
+		}
+
+		@Injectable()
+		class UserRepository {
+			constructor(public db: Database) {}
+		}
+
+		@Injectable()
+		class Cache implements OnInit {
+			onInit() {
+				throw new Error('Cache unavailable')
+			}
+		}
+
+		const error = await container
+			.bootstrap({ providers: [Database, UserRepository, Cache], strict: true })
+			.catch((e) => e)
+
+		expect(error).toBeInstanceOf(BootstrapError)
+		expect(error).toBeInstanceOf(AggregateError)
+		const failures = (error as BootstrapError).failures
+		expect(failures.map(({ token, path }) => ({ token, path }))).toEqual([
+			{ token: 'Database', path: ['Database'] },
+			{ token: 'Cache', path: ['Cache'] },
+			{ token: 'UserRepository', path: ['UserRepository', 'Database'] },
+		])
+		expect(failures[0]?.cause).toBeInstanceOf(LifecycleHookError)
+		expect(((failures[0]?.cause as Error).cause as Error).message).toBe(
+			'Connection refused',
+		)
+		expect((error as BootstrapError).errors).toHaveLength(3)
+		expect((error as BootstrapError).message).toContain(
+			'  - UserRepository: onInit hook failed for Database: Connection refused\n' +
+				'    Path: UserRepository -> Database',
+		)
+	})
+
+	test('should destroy created instances in reverse order before rejecting', async () => {
+		const container = Container.createOrGet()
+		const destroyed: string[] = []
+
+		@Injectable()
+		class Config implements OnDestroy {
+			onDestroy() {
+				destroyed.push('Config')
+			}
+		}
+
+		@Injectable()
+		class Database implements OnDestroy {
+			constructor(public config: Config) {}
+
+			onDestroy() {
+				destroyed.push('Database')
+			}
+		}
+
+		@Injectable()
+		class Mailer implements OnInit {
+			constructor(
+				public config: Config,
+				public db: Database,
+			) {}
+
+			onInit() {
+				throw new Error('SMTP unreachable')
+			}
+		}
+
+		await expect(
+			container.bootstrap({
+				providers: [
+					{ provide: 'NAME', useValue: 'app' },
+					Config,
+					Database,
+					Mailer,
+				],
+				strict: true,
+			}),
+		).rejects.toThrow(BootstrapError)
+
+		expect(destroyed).toEqual(['Database', 'Config'])
+		expect(container.getInstance(Config)).toBeUndefined()
+		expect(container.getInstance(Database)).toBeUndefined()
+		expect(container.getInstance<string>('NAME')).toBe('app')
+	})
+
+	test('should report failures even with logging turned off', async () => {
+		const container = Container.createOrGet()
+		container.setLogLevel(LogLevel.OFF)
+
+		container.register({
+			provide: 'BROKEN',
+			useFactory: () => {
+				throw new Error('Broken factory')
+			},
+		})
+
+		await expect(container.resolveAll({ strict: true })).rejects.toThrow(
+			'Bootstrap failed, 1 provider(s) could not be resolved:\n' +
+				'  - BROKEN: Broken factory\n' +
+				'    Path: BROKEN',
+		)
+	})
+
+	test('should keep skipping failures without strict mode', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Config {}
+
+		container.register(Config)
+		container.register({
+			provide: 'BROKEN',
+			useFactory: () => {
+				throw new Error('Broken factory')
+			},
+		})
+
+		await container.resolveAll()
+
+		expect(container.getInstance(Config)).toBeInstanceOf(Config)
+		expect(container.getInstance('BROKEN')).toBeUndefined()
+	})
+})
+
+// ============================================================================
+// Error Classes Tests
+// ============================================================================
+
+describe('Error Classes', () => {
+	beforeEach(resetContainer)
+
+	test('should throw ProviderNotFoundError with the requesting chain', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class UserRepository {
+			constructor(@Inject('DB_POOL') public pool: unknown) {}
+		}
+
+		@Injectable()
+		class UserService {
+			constructor(public repository: UserRepository) {}
+		}
+
+		container.register(UserRepository)
+		container.register(UserService)
+
+		const error = await container.resolve(UserService).catch((e) => e)
+
+		expect(error).toBeInstanceOf(ProviderNotFoundError)
+		expect(error).toBeInstanceOf(ContainerError)
+		expect(error.name).toBe('ProviderNotFoundError')
+		expect(error.token).toBe('DB_POOL')
+		expect(error.chain).toEqual(['UserService', 'UserRepository', 'DB_POOL'])
+	})
+
+	test('should throw CircularDependencyError with the chain', async () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'A', useFactory: (b) => b, deps: ['B'] })
+		container.register({ provide: 'B', useFactory: (a) => a, deps: ['A'] })
+
+		const error = (await container
+			.resolve('A')
+			.catch((e) => e)) as CircularDependencyError
+
+		expect(error).toBeInstanceOf(CircularDependencyError)
+		expect(error.token).toBe('A')
+		expect(error.chain).toEqual(['A', 'B', 'A'])
+		expect(error.message).toBe(
+			'Circular dependency detected!\nChain: A -> B -> A',
+		)
+	})
+
+	test('should throw UnresolvedInstanceError from getInstanceOrThrow and LazyRef', () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Service {}
+
+		container.register(Service)
+
+		expect(() => container.getInstanceOrThrow(Service)).toThrow(
+			UnresolvedInstanceError,
+		)
+		const error = (() => {
+			try {
+				new LazyRef(container, Service).get()
+			} catch (e) {
+				return e as UnresolvedInstanceError
+			}
+		})()
+		expect(error?.token).toBe('Service')
+		expect(error?.message).toBe('Instance not resolved yet: Service')
+	})
+
+	test('should throw UndefinedParameterTypeError with the parameter index or field', async () => {
+		const container = Container.createOrGet()
+
+		class Database {}
+
+		class UserService {
+			constructor(
+				public db: Database,
+				public other: unknown,
+			) {}
+		}
+		Reflect.defineMetadata(
+			'design:paramtypes',
+			[Database, undefined],
+			UserService,
+		)
+
+		@Injectable()
+		class Mailer {
+			transport?: unknown
+		}
+		// A field without a token, as left by a decorator that failed to record one
+		Reflect.defineMetadata('inject:properties', [{ key: 'transport' }], Mailer)
+
+		const paramError = await container.resolve(UserService).catch((e) => e)
+		expect(paramError).toBeInstanceOf(UndefinedParameterTypeError)
+		expect(paramError.token).toBe('UserService')
+		expect(paramError.parameterIndex).toBe(1)
+
+		const fieldError = await container.resolve(Mailer).catch((e) => e)
+		expect(fieldError).toBeInstanceOf(UndefinedParameterTypeError)
+		expect(fieldError.token).toBe('Mailer')
+		expect(fieldError.propertyKey).toBe('transport')
+		expect(fieldError.parameterIndex).toBeUndefined()
+	})
+
+	test('should wrap failing onInit hooks in LifecycleHookError', async () => {
+		const container = Container.createOrGet()
+		const cause = new Error('Connection refused')
+
+		@Injectable()
+		class Database implements OnInit {
+			onInit() {
+				throw cause
+			}
+		}
+
+		container.register(Database)
+		container.register({
+			provide: 'CACHE',
+			useFactory: () => ({}),
+			onInit: () => {
+				throw new Error('Cache unavailable')
+			},
+		})
+
+		const error = await container.resolve(Database).catch((e) => e)
+		expect(error).toBeInstanceOf(LifecycleHookError)
+		expect(error.token).toBe('Database')
+		expect(error.hook).toBe('onInit')
+		expect(error.cause).toBe(cause)
+		expect(error.message).toBe(
+			'onInit hook failed for Database: Connection refused',
+		)
+
+		await expect(container.resolve('CACHE')).rejects.toThrow(
+			'onInit hook failed for CACHE: Cache unavailable',
+		)
+	})
+
+	test('should use ContainerError for scope and registration rules', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable({ scope: 'request' })
+		class RequestContext {}
+
+		container.register(RequestContext)
+		container.register({ provide: 'SINGLE', useValue: 1 })
+
+		await expect(container.resolve(RequestContext)).rejects.toThrow(
+			ContainerError,
+		)
+		expect(() =>
+			container.register({ provide: 'SINGLE', useValue: 2, multi: true }),
+		).toThrow(ContainerError)
+	})
+})
+
+describe('Resolution Error Details', () => {
+	beforeEach(resetContainer)
+
+	test('should include the full requesting chain and parameter index', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class UserRepository {
+			constructor(@Inject('DB_POOL') public pool: unknown) {}
+		}
+
+		@Injectable()
+		class UserService {
+			constructor(public repository: UserRepository) {}
+		}
+
+		@Injectable()
+		class AppService {
+			constructor(public users: UserService) {}
+		}
+
+		container.register(UserRepository)
+		container.register(UserService)
+		container.register(AppService)
+
+		const error = await container.resolve(AppService).catch((e) => e)
+		expect(error).toBeInstanceOf(ProviderNotFoundError)
+		expect(error.token).toBe('DB_POOL')
+		expect(error.chain).toEqual([
+			'AppService',
+			'UserService',
+			'UserRepository',
+			'DB_POOL',
+		])
+		expect(error.requiredBy).toBe('UserRepository')
+		expect(error.parameterIndex).toBe(0)
+		expect(error.message).toContain('No provider found for token: DB_POOL')
+		expect(error.message).toContain(
+			'Required by: UserRepository (parameter at index 0)',
+		)
+		expect(error.message).toContain(
+			'Chain: AppService -> UserService -> UserRepository -> DB_POOL',
+		)
+	})
+
+	test('should name the field for property injection', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Mailer {
+			@Inject('TRANSPORT')
+			transport!: unknown
+		}
+
+		container.register(Mailer)
+
+		const error = await container.resolve(Mailer).catch((e) => e)
+		expect(error).toBeInstanceOf(ProviderNotFoundError)
+		expect(error.requiredBy).toBe('Mailer')
+		expect(error.propertyKey).toBe('transport')
+		expect(error.parameterIndex).toBeUndefined()
+		expect(error.message).toContain('Required by: Mailer (property transport)')
+	})
+
+	test('should include the dependency index for factory providers', async () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'CONFIG', useValue: {} })
+		container.register({
+			provide: 'CLIENT',
+			useFactory: (_config: unknown, _pool: unknown) => ({}),
+			deps: ['CONFIG', 'POOL'],
+		})
+
+		const error = (await container
+			.resolve('CLIENT')
+			.catch((e) => e)) as ProviderNotFoundError
+		expect(error).toBeInstanceOf(ProviderNotFoundError)
+		expect(error.requiredBy).toBe('CLIENT')
+		expect(error.parameterIndex).toBe(1)
+		expect(error.chain).toEqual(['CLIENT', 'POOL'])
+	})
+
+	test('should suggest similarly named registered tokens', async () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'DB_POOL', useValue: {} })
+		container.register({ provide: 'DATABASE_URL', useValue: '' })
+		container.register({ provide: 'LOGGER', useValue: console })
+
+		@Injectable()
+		class Repository {
+			constructor(@Inject('DB_POLL') public pool: unknown) {}
+		}
+
+		container.register(Repository)
+
+		const error = await container.resolve(Repository).catch((e) => e)
+		expect(error.suggestions).toEqual(['DB_POOL'])
+		expect(error.message).toContain('Did you mean: DB_POOL?')
+
+		const direct = (await container
+			.resolve('logger')
+			.catch((e) => e)) as ProviderNotFoundError
+		expect(direct.suggestions).toEqual(['LOGGER'])
+		expect(direct.requiredBy).toBeUndefined()
+		expect(direct.chain).toEqual(['logger'])
+	})
+
+	test('should omit suggestions when nothing is similar', async () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'CONFIG', useValue: {} })
+
+		const error = (await container
+			.resolve('MAILER')
+			.catch((e) => e)) as ProviderNotFoundError
+		expect(error.suggestions).toEqual([])
+		expect(error.message).toBe('No provider found for token: MAILER')
+	})
+
+	test('should include the chain for undefined parameter types', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Repository {
+			constructor(public dependency: unknown) {}
+		}
+		Reflect.defineMetadata('design:paramtypes', [undefined], Repository)
+
+		@Injectable()
+		class Service {
+			constructor(public repository: Repository) {}
+		}
+
+		container.register(Repository)
+		container.register(Service)
+
+		const error = await container.resolve(Service).catch((e) => e)
+		expect(error).toBeInstanceOf(UndefinedParameterTypeError)
+		expect(error.chain).toEqual(['Service', 'Repository'])
+		expect(error.message).toContain('Chain: Service -> Repository')
+	})
+})
+
+describe('Custom Loggers', () => {
+	beforeEach(resetContainer)
+
+	function createRecordingLogger() {
+		const entries: { level: string; message: string; context?: LogContext }[] =
+			[]
+		const record =
+			(level: string) => (message: string, context?: LogContext) => {
+				entries.push({ level, message, context })
+			}
+		const logger: ContainerLogger = {
+			debug: record('debug'),
+			info: record('info'),
+			warn: record('warn'),
+			error: record('error'),
+		}
+		return { logger, entries }
+	}
+
+	test('should default to the console logger', () => {
+		const container = Container.createOrGet()
+		expect(container.getLogger()).toBeInstanceOf(ConsoleLogger)
+	})
+
+	test('should send details to debug and important events to info', async () => {
+		const container = Container.createOrGet()
+		const { logger, entries } = createRecordingLogger()
+		container.setLogger(logger)
+		container.setLogLevel(LogLevel.VERBOSE)
+
+		@Injectable()
+		class TestService {}
+
+		await container.bootstrap([TestService])
+
+		expect(
+			entries.find((entry) => entry.context?.event === 'register'),
+		).toMatchObject({
+			level: 'debug',
+			context: { event: 'register', token: 'TestService' },
+		})
+		expect(entries).toContainEqual({
+			level: 'debug',
+			message: '[Weight 0] Resolving: TestService',
+			context: { event: 'resolve', token: 'TestService', weight: 0 },
+		})
+
+		const completed = entries.find(
+			(entry) =>
+				entry.level === 'info' &&
+				entry.context?.event === 'bootstrap' &&
+				entry.context.duration !== undefined,
+		)
+		expect(completed?.message).toContain('Container bootstrapped successfully')
+		expect(completed?.context?.duration).toBeGreaterThanOrEqual(0)
+	})
+
+	test('should respect the log level', async () => {
+		const container = Container.createOrGet()
+		const { logger, entries } = createRecordingLogger()
+		container.setLogger(logger)
+
+		@Injectable()
+		class TestService {}
+
+		container.setLogLevel(LogLevel.MINIMAL)
+		await container.bootstrap([TestService])
+		expect(entries.length).toBeGreaterThan(0)
+		expect(entries.every((entry) => entry.level === 'info')).toBe(true)
+
+		entries.length = 0
+		container.setLogLevel(LogLevel.OFF)
+		await container.destroy()
+		expect(entries).toEqual([])
+	})
+
+	test('should log resolveAll failures as details and hook errors as errors', async () => {
+		const container = Container.createOrGet()
+		const { logger, entries } = createRecordingLogger()
+		container.setLogger(logger)
+		container.setLogLevel(LogLevel.VERBOSE)
+
+		@Injectable()
+		class Broken {
+			constructor(@Inject('MISSING') public missing: unknown) {}
+		}
+
+		container.register(Broken)
+		container.register({
+			provide: 'CONNECTION',
+			useValue: {},
+		})
+		container.register({
+			provide: 'POOL',
+			useFactory: () => ({}),
+			onDestroy: () => {
+				throw new Error('Already closed')
+			},
+		})
+
+		await container.resolveAll()
+		const failure = entries.find(
+			(entry) => entry.context?.event === 'resolveFailed',
+		)
+		expect(failure?.level).toBe('debug')
+		expect(failure?.context?.token).toBe('Broken')
+		expect(failure?.context?.error).toBeInstanceOf(ProviderNotFoundError)
+
+		// Skipped providers are details, hidden at MINIMAL like before
+		entries.length = 0
+		container.setLogLevel(LogLevel.MINIMAL)
+		container.clear()
+		container.register(Broken)
+		await container.resolveAll()
+		expect(
+			entries.some((entry) => entry.context?.event === 'resolveFailed'),
+		).toBe(false)
+		container.setLogLevel(LogLevel.VERBOSE)
+		container.register({
+			provide: 'POOL',
+			useFactory: () => ({}),
+			onDestroy: () => {
+				throw new Error('Already closed')
+			},
+		})
+		await container.resolveAll()
+
+		await container.destroy()
+		const error = entries.find((entry) => entry.level === 'error')
+		expect(error?.context?.event).toBe('destroyFailed')
+		expect(error?.context?.token).toBe('POOL')
+		expect(error?.context?.error).toBeInstanceOf(LifecycleHookError)
+	})
+
+	test('should share the logger with child containers', () => {
+		const container = Container.createOrGet()
+		const { logger } = createRecordingLogger()
+		container.setLogger(logger)
+
+		expect(container.createChild().getLogger()).toBe(logger)
+	})
+
+	test('should write one JSON object per line', async () => {
+		const container = Container.createOrGet()
+		const lines: string[] = []
+		container.setLogger(new JsonLinesLogger((line) => lines.push(line)))
+		container.setLogLevel(LogLevel.VERBOSE)
+
+		@Injectable()
+		class Broken {
+			constructor(@Inject('MISSING') public missing: unknown) {}
+		}
+
+		await container.bootstrap({ providers: [Broken], validate: false })
+
+		expect(lines.length).toBeGreaterThan(0)
+		const entries = lines.map((line) => JSON.parse(line))
+		expect(entries[0]).toMatchObject({
+			level: 'info',
+			msg: '🚀 Bootstrapping container...',
+			event: 'bootstrap',
+		})
+		expect(typeof entries[0].time).toBe('string')
+
+		const failure = entries.find((entry) => entry.event === 'resolveFailed')
+		expect(failure).toMatchObject({
+			level: 'debug',
+			event: 'resolveFailed',
+			token: 'Broken',
+			error: { name: 'ProviderNotFoundError' },
+		})
+		expect(failure.error.message).toContain(
+			'No provider found for token: MISSING',
+		)
+	})
+})
+
+describe('Container Events', () => {
+	beforeEach(resetContainer)
+
+	function record<E extends keyof ContainerEvents>(
+		container: Container,
+		event: E,
+	): ContainerEvents[E][] {
+		const payloads: ContainerEvents[E][] = []
+		container.on(event, (payload) => {
+			payloads.push(payload)
+		})
+		return payloads
+	}
+
+	test('should emit registered with the provider kind', () => {
+		const container = Container.create()
+		container.setLogLevel(LogLevel.OFF)
+		const registered = record(container, 'registered')
+
+		@Injectable()
+		class Service {}
+
+		container.register(Service)
+		container.register({ provide: 'CONFIG', useValue: {} })
+		container.register({ provide: 'CLIENT', useFactory: () => ({}) })
+		container.register({ provide: 'SERVICE', useExisting: Service })
+		container.register({ provide: 'PLUGINS', useValue: 'a', multi: true })
+
+		expect(
+			registered.map(({ tokenName, kind, multi }) => ({
+				tokenName,
+				kind,
+				multi,
+			})),
+		).toEqual([
+			{ tokenName: 'Service', kind: 'class', multi: false },
+			{ tokenName: 'CONFIG', kind: 'value', multi: false },
+			{ tokenName: 'CLIENT', kind: 'factory', multi: false },
+			{ tokenName: 'SERVICE', kind: 'alias', multi: false },
+			{ tokenName: 'PLUGINS', kind: 'value', multi: true },
+		])
+		expect(registered[0]?.token).toBe(Service)
+	})
+
+	test('should emit resolving and resolved once per created instance', async () => {
+		const container = Container.create()
+		container.setLogLevel(LogLevel.OFF)
+		const resolving = record(container, 'resolving')
+		const resolved = record(container, 'resolved')
+
+		@Injectable()
+		class Repository {}
+
+		@Injectable()
+		class Service {
+			constructor(public repository: Repository) {}
+		}
+
+		container.register(Repository)
+		container.register(Service)
+
+		await container.resolve(Service)
+		await container.resolve(Service)
+
+		expect(resolving.map((event) => event.tokenName)).toEqual([
+			'Service',
+			'Repository',
+		])
+		expect(resolved.map((event) => event.tokenName)).toEqual([
+			'Repository',
+			'Service',
+		])
+		expect(resolved[1]).toMatchObject({
+			token: Service,
+			kind: 'class',
+			scope: 'singleton',
+			weight: 1,
+		})
+		expect(resolved[1]?.duration).toBeGreaterThanOrEqual(0)
+	})
+
+	test('should emit events for providers resolved by resolveAll()', async () => {
+		const container = Container.create()
+		container.setLogLevel(LogLevel.OFF)
+		const resolved = record(container, 'resolved')
+
+		container.register({ provide: 'CLIENT', useFactory: () => ({}) })
+		await container.resolveAll()
+
+		expect(resolved).toHaveLength(1)
+		expect(resolved[0]).toMatchObject({ tokenName: 'CLIENT', kind: 'factory' })
+	})
+
+	test('should emit initFailed when an onInit hook throws', async () => {
+		const container = Container.create()
+		container.setLogLevel(LogLevel.OFF)
+		const initFailed = record(container, 'initFailed')
+		const resolved = record(container, 'resolved')
+
+		@Injectable()
+		class Database implements OnInit {
+			onInit() {
+				throw new Error('Connection refused')
+			}
+		}
+
+		container.register(Database)
+
+		await expect(container.resolve(Database)).rejects.toThrow(
+			LifecycleHookError,
+		)
+		expect(initFailed).toHaveLength(1)
+		expect(initFailed[0]?.token).toBe(Database)
+		expect(initFailed[0]?.error).toBeInstanceOf(LifecycleHookError)
+		expect(initFailed[0]?.error.hook).toBe('onInit')
+		expect(resolved).toEqual([])
+	})
+
+	test('should emit destroying and destroyed for each instance', async () => {
+		const container = Container.create()
+		container.setLogLevel(LogLevel.OFF)
+		const order: string[] = []
+		container.on('destroying', ({ tokenName }) => {
+			order.push(`destroying ${tokenName}`)
+		})
+		const destroyed = record(container, 'destroyed')
+
+		@Injectable()
+		class Cache implements OnDestroy {
+			onDestroy() {
+				order.push('onDestroy Cache')
+			}
+		}
+
+		container.register(Cache)
+		container.register({
+			provide: 'POOL',
+			useFactory: () => ({}),
+			onDestroy: () => {
+				throw new Error('Already closed')
+			},
+		})
+		await container.resolveAll()
+		await container.destroy()
+
+		expect(order).toContain('destroying Cache')
+		expect(order.indexOf('destroying Cache')).toBeLessThan(
+			order.indexOf('onDestroy Cache'),
+		)
+		const pool = destroyed.find((event) => event.tokenName === 'POOL')
+		expect(pool?.error).toBeInstanceOf(LifecycleHookError)
+		expect(pool?.duration).toBeGreaterThanOrEqual(0)
+		expect(
+			destroyed.find((event) => event.tokenName === 'Cache')?.error,
+		).toBeUndefined()
+	})
+
+	test('should stop calling removed listeners', () => {
+		const container = Container.create()
+		container.setLogLevel(LogLevel.OFF)
+		const tokens: string[] = []
+		const listener = ({ tokenName }: { tokenName: string }) => {
+			tokens.push(tokenName)
+		}
+
+		const stop = container.on('registered', listener)
+		container.register({ provide: 'A', useValue: 1 })
+		stop()
+		container.register({ provide: 'B', useValue: 2 })
+
+		container.on('registered', listener)
+		container.off('registered', listener)
+		container.register({ provide: 'C', useValue: 3 })
+
+		expect(tokens).toEqual(['A'])
+	})
+
+	test('should not let a throwing listener break the container', async () => {
+		const container = Container.create()
+		container.setLogLevel(LogLevel.OFF)
+		container.on('resolved', () => {
+			throw new Error('Listener failed')
+		})
+
+		container.register({ provide: 'CLIENT', useFactory: () => 'client' })
+
+		expect(await container.resolve<string>('CLIENT')).toBe('client')
+	})
+})
+
+describe('Bootstrap Report', () => {
+	beforeEach(resetContainer)
+
+	const sleep = (ms: number) =>
+		new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+	test('should not record a report unless profiling', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Service {}
+
+		await container.bootstrap([Service])
+		expect(container.getBootstrapReport()).toBeUndefined()
+	})
+
+	test('should record construction and onInit timings per token', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Database implements OnInit {
+			async onInit() {
+				await sleep(30)
+			}
+		}
+
+		@Injectable()
+		class UserService {
+			constructor(public database: Database) {}
+		}
+
+		await container.bootstrap({
+			providers: [
+				Database,
+				UserService,
+				{ provide: 'CONFIG', useValue: {} },
+				{
+					provide: 'CACHE',
+					useFactory: () => ({}),
+					deps: ['CONFIG'],
+					onInit: () => sleep(10),
+				},
+			],
+			profile: true,
+		})
+
+		const report = container.getBootstrapReport()
+		expect(report).toBeInstanceOf(BootstrapReport)
+		expect(report?.entries.map((entry) => entry.token)).toEqual([
+			'Database',
+			'CACHE',
+			'UserService',
+		])
+
+		const [database, cache, users] = report?.entries ?? []
+		expect(database?.instanceInit).toBeGreaterThanOrEqual(25)
+		expect(database?.providerInit).toBe(0)
+		expect(database?.weight).toBe(0)
+		expect(cache?.providerInit).toBeGreaterThanOrEqual(5)
+		expect(cache?.dependencies).toEqual(['CONFIG'])
+		expect(users?.dependencies).toEqual(['Database'])
+		expect(users?.weight).toBe(1)
+		// Waiting for Database is not counted as UserService's own time
+		expect(users?.total).toBeLessThan(25)
+		expect(report?.duration).toBeGreaterThanOrEqual(30)
+	})
+
+	test('should count time awaiting dependencies separately', async () => {
+		const container = Container.createOrGet()
+
+		// Transient providers are skipped by resolveAll() and created by CLIENT
+		container.register({
+			provide: 'SLOW',
+			useFactory: async () => {
+				await sleep(30)
+				return 'slow'
+			},
+			scope: 'transient',
+		})
+		container.register({
+			provide: 'CLIENT',
+			useFactory: (slow: string) => ({ slow }),
+			deps: ['SLOW'],
+		})
+
+		await container.resolveAll({ profile: true })
+		const report = container.getBootstrapReport()
+		const slow = report?.entries.find((entry) => entry.token === 'SLOW')
+		const client = report?.entries.find((entry) => entry.token === 'CLIENT')
+		expect(slow?.construction).toBeGreaterThanOrEqual(25)
+		expect(client?.dependencies).toEqual(['SLOW'])
+		expect(client?.dependencyTime).toBeGreaterThanOrEqual(25)
+		expect(client?.construction).toBeLessThan(25)
+	})
+
+	test('should render the report as a table and JSON', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Config {}
+
+		@Injectable()
+		class App {
+			constructor(public config: Config) {}
+		}
+
+		await container.bootstrap({ providers: [Config, App], profile: true })
+		const report = container.getBootstrapReport()
+
+		const table = report?.toTable() ?? ''
+		const lines = table.split('\n')
+		expect(lines[0]).toMatch(
+			/^Token\s+Weight\s+Construction\s+Provider onInit\s+Instance onInit\s+Total\s+Dependencies$/,
+		)
+		expect(table).toMatch(/App\s+1\s+[\d.]+ms.*Config$/m)
+		expect(lines.at(-1)).toMatch(/^Resolved 2 provider\(s\) in [\d.]+ms$/)
+
+		const json = JSON.parse(JSON.stringify(report))
+		expect(json.entries).toHaveLength(2)
+		expect(json.entries.map((entry: { token: string }) => entry.token)).toEqual(
+			expect.arrayContaining(['App', 'Config']),
+		)
+		expect(typeof json.duration).toBe('number')
+	})
+
+	test('should keep the report of a failed strict bootstrap', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Broken implements OnInit {
+			onInit() {
+				throw new Error('Boom')
+			}
+		}
+
+		@Injectable()
+		class Healthy {}
+
+		await expect(
+			container.bootstrap({
+				providers: [Broken, Healthy],
+				strict: true,
+				profile: true,
+			}),
+		).rejects.toThrow(BootstrapError)
+
+		const tokens = container
+			.getBootstrapReport()
+			?.entries.map((entry) => entry.token)
+		expect(tokens).toEqual(expect.arrayContaining(['Broken', 'Healthy']))
+	})
+})
+
+describe('Graph Export', () => {
+	beforeEach(resetContainer)
+
+	function exportJson(container: Container): GraphExport {
+		return JSON.parse(container.exportGraph({ format: 'json' }))
+	}
+
+	test('should describe nodes with kind, scope, group and identity', async () => {
+		const container = Container.createOrGet()
+		const first = Symbol('CACHE')
+		const second = Symbol('CACHE')
+
+		@Injectable()
+		class Repository {}
+
+		@Group({ providers: [Repository] })
+		class DataModule {}
+
+		@Injectable({ scope: 'transient' })
+		class Formatter {}
+
+		await container.bootstrap([
+			DataModule,
+			Formatter,
+			{ provide: first, useValue: 1 },
+			{ provide: second, useFactory: () => 2 },
+			{ provide: 'REPOSITORY', useExisting: Repository },
+			{ provide: 'PLUGINS', useValue: 'a', multi: true },
+		])
+
+		const { nodes } = exportJson(container)
+		const find = (token: string) => nodes.filter((node) => node.token === token)
+
+		expect(find('Repository')[0]).toMatchObject({
+			kind: 'class',
+			scope: 'singleton',
+			group: 'DataModule',
+		})
+		expect(find('Formatter')[0]).toMatchObject({ scope: 'transient' })
+		expect(find('Formatter')[0]?.group).toBeUndefined()
+		expect(find('Symbol(CACHE)').map((node) => node.kind)).toEqual([
+			'value',
+			'factory',
+		])
+		expect(new Set(find('Symbol(CACHE)').map((node) => node.id)).size).toBe(2)
+		expect(find('REPOSITORY')[0]?.kind).toBe('alias')
+		expect(find('PLUGINS')[0]?.multi).toBe(true)
+	})
+
+	test('should include dependency edges and mark lazy ones', () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Config {}
+
+		@Injectable()
+		class Mailer {}
+
+		@Injectable()
+		class UserService {
+			constructor(
+				public config: Config,
+				@Lazy(Mailer) public mailer: LazyRef<Mailer>,
+				@Inject('MISSING') public missing: unknown,
+			) {}
+		}
+
+		container.register(Config)
+		container.register(Mailer)
+		container.register(UserService)
+
+		const { nodes, edges, cycles } = exportJson(container)
+		const id = (token: string) =>
+			nodes.find((node) => node.token === token)?.id ?? ''
+		const from = id('UserService')
+
+		expect(edges).toContainEqual({
+			from,
+			to: id('Config'),
+			lazy: false,
+			cycle: false,
+		})
+		expect(edges).toContainEqual({
+			from,
+			to: id('Mailer'),
+			lazy: true,
+			cycle: false,
+		})
+		expect(nodes.find((node) => node.token === 'MISSING')?.missing).toBe(true)
+		expect(cycles).toEqual([])
+	})
+
+	test('should highlight cycles not broken by lazy injection', () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'A', useFactory: (b) => b, deps: ['B'] })
+		container.register({ provide: 'B', useFactory: (a) => a, deps: ['A'] })
+		container.register({ provide: 'C', useFactory: (a) => a, deps: ['A'] })
+
+		const { nodes, edges, cycles } = exportJson(container)
+		expect(cycles).toEqual([['A', 'B']])
+		expect(
+			nodes.filter((node) => node.cycle).map((node) => node.token),
+		).toEqual(['A', 'B'])
+		expect(edges.filter((edge) => edge.cycle)).toHaveLength(2)
+
+		const mermaid = container.exportGraph({ format: 'mermaid' })
+		expect(mermaid).toContain('class n0,n1 cycle')
+		expect(mermaid).toContain('linkStyle 0,1 stroke:#d33')
+
+		const dot = container.exportGraph({ format: 'dot' })
+		expect(dot).toContain('n0 -> n1 [color=red];')
+		expect(dot).toContain('n2 -> n0;')
+	})
+
+	test('should follow cycles through falsy tokens', () => {
+		const container = Container.createOrGet()
+
+		container.register({ provide: 'A', useFactory: (b) => b, deps: [''] })
+		container.register({ provide: '', useFactory: (a) => a, deps: ['A'] })
+
+		expect(exportJson(container).cycles).toEqual([['A', '']])
+	})
+	test('should render Mermaid with subgraphs and dashed lazy edges', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Config {}
+
+		@Injectable()
+		class Service {
+			constructor(@Lazy(Config) public config: LazyRef<Config>) {}
+		}
+
+		@Group({ providers: [Config, Service] })
+		class CoreModule {}
+
+		await container.bootstrap([CoreModule])
+
+		const mermaid = container.exportGraph()
+		expect(mermaid.split('\n')[0]).toBe('flowchart TD')
+		expect(mermaid).toContain('subgraph group0["CoreModule"]')
+		expect(mermaid).toMatch(
+			/n\d+\["Service<br\/><small>class, singleton<\/small>"\]/,
+		)
+		expect(mermaid).toMatch(/n\d+ -\.-> n\d+/)
+	})
+
+	test('should render DOT with clusters and escaped labels', async () => {
+		const container = Container.createOrGet()
+
+		@Injectable()
+		class Config {}
+
+		@Group({ providers: [Config] })
+		class CoreModule {}
+
+		await container.bootstrap([
+			CoreModule,
+			{ provide: 'say "hi"', useValue: 'hi' },
+		])
+
+		const dot = container.exportGraph({ format: 'dot' })
+		expect(dot.startsWith('digraph Dependencies {')).toBe(true)
+		expect(dot).toContain('subgraph cluster_0 {')
+		expect(dot).toContain('label="CoreModule";')
+		expect(dot).toContain('label="say \\"hi\\"\\nvalue, singleton"')
+		expect(dot.endsWith('}')).toBe(true)
+	})
+})
+
+describe('Test Containers', () => {
+	beforeEach(resetContainer)
+
+	@Injectable()
+	class Database {
+		query() {
+			return 'real'
+		}
+	}
+
+	@Injectable()
+	class UserService {
+		constructor(
+			public database: Database,
+			@Inject('API_URL') public apiUrl: string,
+		) {}
+	}
+
+	@Group({
+		providers: [Database, { provide: 'API_URL', useValue: 'https://api' }],
+		exports: [Database, 'API_URL'],
+	})
+	class DataModule {}
+
+	@Group({ imports: [DataModule], providers: [UserService] })
+	class AppModule {}
+
+	test('should compile an isolated container without touching the global one', async () => {
+		const container = await Test.createContainer({
+			providers: [AppModule],
+		}).compile()
+
+		expect(container).not.toBe(Container.createOrGet())
+		expect(container.getLogLevel()).toBe(LogLevel.OFF)
+		expect(container.getInstanceOrThrow(UserService).database.query()).toBe(
+			'real',
+		)
+		expect(Container.createOrGet().hasProvider(UserService)).toBe(false)
+	})
+
+	test('should give every compiled container its own instances', async () => {
+		const builder = Test.createContainer({ providers: [AppModule] })
+		const first = await builder.compile()
+		const second = await builder.compile()
+
+		expect(first.getInstanceOrThrow(Database)).not.toBe(
+			second.getInstanceOrThrow(Database),
+		)
+	})
+
+	test('should override providers inside groups with values, classes and factories', async () => {
+		class FakeDatabase extends Database {
+			override query() {
+				return 'fake'
+			}
+		}
+
+		const byClass = await Test.createContainer({ providers: [AppModule] })
+			.overrideProvider(Database)
+			.useClass(FakeDatabase)
+			.overrideProvider<string>('API_URL')
+			.useValue('http://localhost')
+			.compile()
+		const users = byClass.getInstanceOrThrow(UserService)
+		expect(users.database.query()).toBe('fake')
+		expect(users.apiUrl).toBe('http://localhost')
+
+		const fake = { query: () => 'stub' } as Database
+		const byValue = await Test.createContainer({ providers: [AppModule] })
+			.overrideProvider(Database)
+			.useValue(fake)
+			.compile()
+		expect(byValue.getInstanceOrThrow(UserService).database).toBe(fake)
+
+		const byFactory = await Test.createContainer({ providers: [AppModule] })
+			.overrideProvider<string>('API_URL')
+			.useFactory((base: string) => `${base}/v2`, ['BASE'])
+			.overrideProvider<string>('BASE')
+			.useValue('http://test')
+			.compile()
+		expect(byFactory.getInstanceOrThrow(UserService).apiUrl).toBe(
+			'http://test/v2',
+		)
+	})
+
+	test('should let overrides provide dependencies that are missing', async () => {
+		const container = await Test.createContainer({ providers: [UserService] })
+			.overrideProvider(Database)
+			.useValue({ query: () => 'stub' } as Database)
+			.overrideProvider<string>('API_URL')
+			.useValue('http://localhost')
+			.compile()
+
+		expect(container.getInstanceOrThrow(UserService).database.query()).toBe(
+			'stub',
+		)
+	})
+
+	test('should override groups', async () => {
+		@Injectable()
+		class InMemoryDatabase extends Database {
+			override query() {
+				return 'memory'
+			}
+		}
+
+		@Group({
+			providers: [
+				{ provide: Database, useClass: InMemoryDatabase },
+				{ provide: 'API_URL', useValue: 'memory://' },
+			],
+			exports: [Database, 'API_URL'],
+		})
+		class InMemoryDataModule {}
+
+		const replaced = await Test.createContainer({ providers: [AppModule] })
+			.overrideGroup(DataModule)
+			.useGroup(InMemoryDataModule)
+			.compile()
+		const users = replaced.getInstanceOrThrow(UserService)
+		expect(users.database.query()).toBe('memory')
+		expect(users.apiUrl).toBe('memory://')
+
+		const reprovided = await Test.createContainer({ providers: [AppModule] })
+			.overrideGroup(DataModule)
+			.useProviders([
+				{ provide: Database, useValue: { query: () => 'inline' } },
+				{ provide: 'API_URL', useValue: 'inline://' },
+			])
+			.compile()
+		expect(reprovided.getInstanceOrThrow(UserService).database.query()).toBe(
+			'inline',
+		)
+	})
+
+	test('should pass bootstrap options through', async () => {
+		@Injectable()
+		class Broken implements OnInit {
+			onInit() {
+				throw new Error('Boom')
+			}
+		}
+
+		await expect(
+			Test.createContainer({ providers: [Broken], strict: true }).compile(),
+		).rejects.toThrow(BootstrapError)
+	})
+})
+
+describe('Auto Mocking', () => {
+	beforeEach(resetContainer)
+
+	class Repository {
+		findById(_id: number): { id: number; name: string } | undefined {
+			throw new Error('Not mocked')
+		}
+	}
+
+	@Injectable()
+	class UserRepository extends Repository {
+		save(_user: { id: number; name: string }): void {
+			throw new Error('Not mocked')
+		}
+	}
+
+	@Injectable()
+	class Mailer {
+		send(_to: string): boolean {
+			return true
+		}
+	}
+
+	@Injectable()
+	class UserService {
+		constructor(
+			public repository: UserRepository,
+			@Inject('CONFIG') public config: { sender: string },
+		) {}
+
+		@Inject(Mailer)
+		mailer!: Mailer
+
+		rename(id: number, name: string) {
+			const user = this.repository.findById(id)
+			if (user) {
+				this.repository.save({ ...user, name })
+				this.mailer.send(this.config.sender)
+			}
+		}
+	}
+
+	test('should mock dependencies without a provider', async () => {
+		const container = await Test.createContainer({
+			providers: [UserService],
+			autoMock: true,
+		}).compile()
+
+		const service = container.getInstanceOrThrow(UserService)
+		const repository = container.getMock(UserRepository)
+		expect(service.repository).toBe(repository)
+		expect(repository).toBeInstanceOf(UserRepository)
+		expect(service.mailer).toBe(container.getMock(Mailer))
+
+		// Methods, including inherited ones, return undefined until given a value
+		expect(repository.findById(1)).toBeUndefined()
+		expect(repository.save({ id: 1, name: 'Ada' })).toBeUndefined()
+		expect(repository.findById.calls).toEqual([[1]])
+	})
+
+	test('should let mock functions return values and record calls', async () => {
+		const container = await Test.createContainer({
+			providers: [UserService],
+			autoMock: true,
+		}).compile()
+
+		const repository = container.getMock(UserRepository)
+		repository.findById.mockReturnValue({ id: 1, name: 'Ada' })
+		container.getMock(Mailer).send.mockImplementation((to) => to === 'me')
+
+		container.getInstanceOrThrow(UserService).rename(1, 'Grace')
+
+		expect(repository.save.calls).toEqual([[{ id: 1, name: 'Grace' }]])
+		expect(container.getMock(Mailer).send.calls).toHaveLength(1)
+	})
+
+	test('should mock non-class tokens with a proxy of mock functions', async () => {
+		const container = await Test.createContainer({
+			providers: [
+				{
+					provide: 'CLIENT',
+					useFactory: (http: { get: (url: string) => string }) => http,
+					deps: ['HTTP'],
+				},
+			],
+			autoMock: true,
+		}).compile()
+
+		const http = container.getMock<{ get: (url: string) => string }>('HTTP')
+		http.get.mockReturnValue('ok')
+		const client = container.getInstanceOrThrow<{
+			get: (url: string) => string
+		}>('CLIENT')
+		expect(client.get('/users')).toBe('ok')
+		expect(http.get.calls).toEqual([['/users']])
+		expect(await Promise.resolve(http)).toBe(http)
+	})
+
+	test('should keep registered providers, overrides and missing optional deps', async () => {
+		@Injectable()
+		class Notifier {
+			constructor(
+				public mailer: Mailer,
+				@Optional() @Inject('SMS') public sms?: unknown,
+			) {}
+		}
+
+		const fakeRepository = { findById: () => undefined } as never
+		const container = await Test.createContainer({
+			providers: [UserService, Notifier, Mailer],
+			autoMock: true,
+		})
+			.overrideProvider(UserRepository)
+			.useValue(fakeRepository)
+			.compile()
+
+		expect(container.getInstanceOrThrow(Notifier).mailer).toBeInstanceOf(Mailer)
+		expect(container.getInstanceOrThrow(Notifier).sms).toBeUndefined()
+		expect(container.getInstanceOrThrow(UserService).repository).toBe(
+			fakeRepository,
+		)
+		expect(() => container.getMock(UserRepository)).toThrow(ContainerError)
+		expect(() => container.getMock(Mailer)).toThrow('No mock for token: Mailer')
+		expect(container.getMock('CONFIG')).toBeDefined()
+	})
+
+	test('should use a custom mock factory per token', async () => {
+		const config = { sender: 'noreply@example.com' }
+		const container = await Test.createContainer({
+			providers: [UserService],
+			autoMock: (token) => (token === 'CONFIG' ? config : undefined),
+		}).compile()
+
+		expect(container.getInstanceOrThrow(UserService).config).toBe(config)
+		expect(container.getMock('CONFIG')).toBe(config)
+		expect(container.getMock(UserRepository)).toBeInstanceOf(UserRepository)
+	})
+
+	test('should not mock anything without autoMock', async () => {
+		await expect(
+			Test.createContainer({ providers: [UserService] }).compile(),
+		).rejects.toThrow('Container validation failed')
+	})
+})
+
+describe('Container Snapshots', () => {
+	beforeEach(resetContainer)
+
+	@Injectable()
+	class Database {
+		static connections = 0
+
+		constructor() {
+			Database.connections++
+		}
+	}
+
+	@Injectable()
+	class Mailer {
+		send() {
+			return 'sent'
+		}
+	}
+
+	@Injectable()
+	class UserService {
+		constructor(
+			public database: Database,
+			public mailer: Mailer,
+		) {}
+	}
+
+	test('should restore registrations and instances', async () => {
+		const container = Container.createOrGet()
+		await container.bootstrap([Database, Mailer, UserService])
+		const snapshot = container.snapshot()
+		const service = container.getInstanceOrThrow(UserService)
+
+		container.register({ provide: Mailer, useValue: { send: () => 'fake' } })
+		container.register({ provide: 'EXTRA', useValue: 1 })
+		expect(container.getInstance(UserService)).toBe(service)
+		expect(container.getInstance<Mailer>(Mailer)?.send()).toBe('fake')
+
+		await container.restore(snapshot)
+
+		expect(container.getInstance(UserService)).toBe(service)
+		expect(container.getInstanceOrThrow(Mailer).send()).toBe('sent')
+		expect(container.hasProvider('EXTRA')).toBe(false)
+		expect(container.getProvidersMap().get(Mailer)).toBe(Mailer)
+		expect(container.calculateWeight(UserService)).toBe(1)
+	})
+
+	test('should not be changed by later registrations or clear()', async () => {
+		const container = Container.createOrGet()
+		await container.bootstrap([Database])
+		const snapshot = container.snapshot()
+
+		container.clear()
+		container.register(Mailer)
+
+		expect(Array.from(snapshot.providers.keys())).toEqual([Database])
+		expect(snapshot.instances.get(Database)).toBeInstanceOf(Database)
+
+		await container.restore(snapshot)
+		await container.restore(snapshot)
+		expect(container.hasProvider(Mailer)).toBe(false)
+		expect(container.getInstance(Database)).toBe(
+			snapshot.instances.get(Database) as Database,
+		)
+	})
+
+	test('should resolve providers registered before the snapshot again', async () => {
+		const container = Container.createOrGet()
+		container.register(Database)
+		const snapshot = container.snapshot()
+		const connections = Database.connections
+
+		await container.resolve(Database)
+		await container.restore(snapshot)
+
+		expect(container.getInstance(Database)).toBeUndefined()
+		await container.resolve(Database)
+		expect(Database.connections).toBe(connections + 2)
+	})
+
+	test('should restore multi provider contributions', async () => {
+		const container = Container.createOrGet()
+		container.register({ provide: 'PLUGINS', useValue: 'a', multi: true })
+		const snapshot = container.snapshot()
+
+		container.register({ provide: 'PLUGINS', useValue: 'b', multi: true })
+		expect(await container.resolve<string[]>('PLUGINS')).toEqual(['a', 'b'])
+
+		await container.restore(snapshot)
+		expect(await container.resolve<string[]>('PLUGINS')).toEqual(['a'])
+	})
+
+	test('should destroy instances created after the snapshot when asked', async () => {
+		const destroyed: string[] = []
+
+		@Injectable()
+		class Cache implements OnDestroy {
+			onDestroy() {
+				destroyed.push('Cache')
+			}
+		}
+
+		@Injectable()
+		class Queue implements OnDestroy {
+			constructor(public cache: Cache) {}
+
+			onDestroy() {
+				destroyed.push('Queue')
+			}
+		}
+
+		const container = Container.createOrGet()
+		await container.bootstrap([Cache])
+		const snapshot = container.snapshot()
+
+		container.register(Queue)
+		container.register({
+			provide: 'TEMP',
+			useFactory: () => ({}),
+			onDestroy: () => {
+				destroyed.push('TEMP')
+			},
+		})
+		await container.resolve(Queue)
+		await container.resolve('TEMP')
+
+		await container.restore(snapshot, { destroy: true })
+
+		expect(destroyed).toEqual(['TEMP', 'Queue'])
+		expect(container.getInstance(Cache)).toBeInstanceOf(Cache)
+		expect(container.hasProvider(Queue)).toBe(false)
+	})
+
+	test('should keep instances created after the snapshot alive by default', async () => {
+		let destroyed = false
+
+		@Injectable()
+		class Worker implements OnDestroy {
+			onDestroy() {
+				destroyed = true
+			}
+		}
+
+		const container = Container.createOrGet()
+		const snapshot = container.snapshot()
+		container.register(Worker)
+		await container.resolve(Worker)
+
+		await container.restore(snapshot)
+
+		expect(destroyed).toBe(false)
+		expect(container.hasProvider(Worker)).toBe(false)
+	})
+
+	test('should throw when taking a snapshot during a resolution', async () => {
+		@Injectable()
+		class Slow implements OnInit {
+			async onInit() {
+				await new Promise((resolve) => setTimeout(resolve, 5))
+			}
+		}
+
+		const container = Container.createOrGet()
+		container.register(Slow)
+		const pending = container.resolve(Slow)
+
+		expect(() => container.snapshot()).toThrow(ContainerError)
+		await pending
+		expect(() => container.snapshot()).not.toThrow()
+	})
+
+	test('should throw when restoring during a resolution', async () => {
+		@Injectable()
+		class Slow implements OnInit {
+			async onInit() {
+				await new Promise((resolve) => setTimeout(resolve, 5))
+			}
+		}
+
+		const container = Container.createOrGet()
+		const snapshot = container.snapshot()
+		container.register(Slow)
+		const pending = container.resolve(Slow)
+
+		await expect(container.restore(snapshot)).rejects.toThrow(
+			'Cannot restore a snapshot while resolving: Slow',
+		)
+		await pending
+		expect(container.getInstance(Slow)).toBeInstanceOf(Slow)
+
+		await container.restore(snapshot)
+		expect(container.hasProvider(Slow)).toBe(false)
+	})
+})
+
+describe('Graph Assertions', () => {
+	beforeEach(resetContainer)
+
+	@Injectable()
+	class UserRepository {}
+
+	@Injectable()
+	class UserService {
+		constructor(public repository: UserRepository) {}
+	}
+
+	@Injectable()
+	class UserController {
+		constructor(public service: UserService) {}
+	}
+
+	const getContainer = () => {
+		const container = Container.create()
+		container.register(UserRepository)
+		container.register(UserService)
+		container.register(UserController)
+		return container
+	}
+
+	test('should pass on a graph without cycles and fail with every cycle', () => {
+		expect(() => expectNoCycles(getContainer())).not.toThrow()
+
+		@Injectable()
+		class A {
+			constructor(@Inject('B') public b: unknown) {}
+		}
+
+		const container = Container.create()
+		container.register(A)
+		container.register({ provide: 'B', useFactory: (a) => a, deps: [A] })
+
+		expect(() => expectNoCycles(container)).toThrow(GraphAssertionError)
+		expect(() => expectNoCycles(container)).toThrow(
+			'Expected no circular dependencies, found 1:\n  - A -> B -> A',
+		)
+	})
+
+	test('should allow cycles broken with lazy references', () => {
+		@Injectable()
+		class Right {
+			constructor(@Inject('LEFT') public left: unknown) {}
+		}
+
+		@Injectable()
+		class Left {
+			constructor(@Lazy(Right) public right: LazyRef<Right>) {}
+		}
+
+		const container = Container.create()
+		container.register({ provide: 'LEFT', useClass: Left })
+		container.register(Right)
+		expect(() => expectNoCycles(container)).not.toThrow()
+	})
+
+	test('should check that a token is resolvable without instantiating it', () => {
+		let created = false
+
+		@Injectable()
+		class Reports {
+			constructor(@Inject('DB_URL') public url: string) {
+				created = true
+			}
+		}
+
+		const container = getContainer()
+		container.register(Reports)
+
+		expect(() => expectResolvable(container, UserController)).not.toThrow()
+		expect(() => expectResolvable(container, Reports)).toThrow(
+			'Expected Reports to be resolvable, found 1 issue(s):\n' +
+				'  - No provider found for token: DB_URL (required by Reports)\n' +
+				'    Path: Reports -> DB_URL',
+		)
+		expect(() => expectResolvable(container, 'MISSING')).toThrow(
+			'Expected MISSING to be resolvable, but it has no provider',
+		)
+		expect(created).toBe(false)
+	})
+
+	test('should check direct and transitive dependencies', () => {
+		const container = getContainer()
+
+		expectDependsOn(container, UserController, UserRepository)
+		expectDependsOn(container, UserService, UserRepository, { direct: true })
+		expectNotDependsOn(container, UserRepository, UserController)
+		expectNotDependsOn(container, UserController, UserRepository, {
+			direct: true,
+		})
+
+		expect(() =>
+			expectDependsOn(container, UserController, UserRepository, {
+				direct: true,
+			}),
+		).toThrow('Expected UserController to depend directly on UserRepository')
+		expect(() =>
+			expectNotDependsOn(container, UserController, UserRepository),
+		).toThrow(
+			'Expected UserController not to depend on UserRepository\n' +
+				'  Path: UserController -> UserService -> UserRepository',
+		)
+	})
+
+	test('should follow lazy dependencies and factory deps', () => {
+		@Injectable()
+		class Audit {
+			constructor(@Lazy(UserService) public users: LazyRef<UserService>) {}
+		}
+
+		const container = getContainer()
+		container.register(Audit)
+		container.register({
+			provide: 'REPORT',
+			useFactory: (audit: Audit) => audit,
+			deps: [Audit],
+		})
+
+		expectDependsOn(container, 'REPORT', UserRepository)
+		expect(() => expectNotDependsOn(container, 'REPORT', UserService)).toThrow(
+			'Path: REPORT -> Audit -> UserService',
+		)
+	})
+
+	test('should fail on providers heavier than the maximum weight', () => {
+		const container = getContainer()
+
+		expect(() => expectMaxWeight(container, 2)).not.toThrow()
+		expect(() => expectMaxWeight(container, 0)).toThrow(
+			'Expected every provider to have a weight of at most 0, found 2 heavier:\n' +
+				'  - UserController (weight 2)\n' +
+				'  - UserService (weight 1)',
+		)
+	})
+
+	test('should fail on providers that no entry point depends on', () => {
+		const container = getContainer()
+		container.register({ provide: 'UNUSED', useValue: 1 })
+
+		expect(() =>
+			expectNoUnusedProviders(container, { entryPoints: [UserController] }),
+		).toThrow('Expected every provider to be used, found 1 unused:\n  - UNUSED')
+		expect(() => expectNoUnusedProviders(container)).toThrow(
+			'found 4 unused:\n  - UserRepository\n  - UserService\n  - UserController\n  - UNUSED',
+		)
+
+		container.register({ provide: 'ALIAS', useExisting: 'UNUSED' })
+		expect(() =>
+			expectNoUnusedProviders(container, {
+				entryPoints: [UserController, 'ALIAS'],
+			}),
+		).not.toThrow()
+	})
+
+	test('should fail on providers that only depend on each other', () => {
+		const container = getContainer()
+		container.register({
+			provide: 'PING',
+			useFactory: (pong: unknown) => pong,
+			deps: ['PONG'],
+		})
+		container.register({
+			provide: 'PONG',
+			useFactory: (ping: unknown) => ping,
+			deps: ['PING'],
+		})
+		container.register({ provide: 'LEAF', useValue: 'leaf' })
+		container.register({
+			provide: '',
+			useFactory: (leaf: string) => leaf,
+			deps: ['LEAF'],
+		})
+		container.register({
+			provide: 'EMPTY',
+			useFactory: (empty: string) => empty,
+			deps: [''],
+		})
+
+		expect(() =>
+			expectNoUnusedProviders(container, {
+				entryPoints: [UserController, 'EMPTY'],
+			}),
+		).toThrow('found 2 unused:\n  - PING\n  - PONG')
+		expectDependsOn(container, 'EMPTY', 'LEAF')
+	})
+})
+
+describe('Interceptors', () => {
+	beforeEach(resetContainer)
+
+	const record =
+		(calls: string[], name: string): Interceptor =>
+		({ method }, next) => {
+			calls.push(`${name}:${String(method)}`)
+			return next()
+		}
+
+	test('should run container interceptors around the methods of a token', async () => {
+		const calls: string[] = []
+
+		@Injectable()
+		class Calculator {
+			add(a: number, b: number) {
+				return a + b
+			}
+		}
+
+		const container = Container.createOrGet()
+		container.intercept(Calculator, (context, next) => {
+			calls.push(`${String(context.token === Calculator)}`)
+			expect(context.instance).toBeInstanceOf(Calculator)
+			expect(context.args).toEqual([1, 2])
+			return (next() as number) * 10
+		})
+		container.register(Calculator)
+
+		const calculator = await container.resolve(Calculator)
+		expect(calculator.add(1, 2)).toBe(30)
+		expect(calculator).toBeInstanceOf(Calculator)
+		expect(container.getInstance(Calculator)).toBe(calculator)
+		expect(calls).toEqual(['true'])
+	})
+
+	test('should select tokens with a predicate', async () => {
+		const calls: string[] = []
+
+		@Injectable()
+		class UserService {
+			find() {
+				return 'user'
+			}
+		}
+
+		@Injectable()
+		class Clock {
+			now() {
+				return 0
+			}
+		}
+
+		const container = Container.createOrGet()
+		container.interceptWhere(
+			(token) => typeof token === 'function' && token.name.endsWith('Service'),
+			record(calls, 'log'),
+		)
+		await container.bootstrap([UserService, Clock])
+
+		container.getInstanceOrThrow(UserService).find()
+		container.getInstanceOrThrow(Clock).now()
+		expect(calls).toEqual(['log:find'])
+	})
+
+	test('should apply @UseInterceptors() on classes and methods in order', async () => {
+		const calls: string[] = []
+
+		@Injectable()
+		@UseInterceptors(record(calls, 'class'))
+		class OrderService {
+			@UseInterceptors(record(calls, 'first'), record(calls, 'second'))
+			place() {
+				calls.push('place')
+				return this.total()
+			}
+
+			total() {
+				return 42
+			}
+		}
+
+		const container = Container.createOrGet()
+		container.intercept(OrderService, record(calls, 'container'))
+		container.register(OrderService)
+
+		expect((await container.resolve(OrderService)).place()).toBe(42)
+		// Calls through `this` are not intercepted again
+		expect(calls).toEqual([
+			'container:place',
+			'class:place',
+			'first:place',
+			'second:place',
+			'place',
+		])
+	})
+
+	test('should let interceptors replace arguments, skip or retry calls', async () => {
+		let attempts = 0
+		const cache = new Map<unknown, unknown>()
+
+		@Injectable()
+		class Api {
+			@UseInterceptors(({ args }, next) => {
+				if (cache.has(args[0])) return cache.get(args[0])
+				const result = next()
+				cache.set(args[0], result)
+				return result
+			})
+			lookup(id: number) {
+				return { id }
+			}
+
+			@UseInterceptors(async (_context, next) => {
+				for (let retry = 0; ; retry++) {
+					try {
+						return await next()
+					} catch (error) {
+						if (retry === 2) throw error
+					}
+				}
+			})
+			async fetch() {
+				attempts++
+				if (attempts < 3) throw new Error('Unavailable')
+				return 'ok'
+			}
+
+			@UseInterceptors((context, next) => {
+				context.args = context.args.map((arg) => String(arg).trim())
+				return next()
+			})
+			echo(value: string) {
+				return value
+			}
+		}
+
+		const container = Container.createOrGet()
+		container.register(Api)
+		const api = await container.resolve(Api)
+
+		expect(api.lookup(1)).toBe(api.lookup(1))
+		expect(await api.fetch()).toBe('ok')
+		expect(attempts).toBe(3)
+		expect(api.echo('  hi ')).toBe('hi')
+	})
+
+	test('should compose with onInit and onDestroy', async () => {
+		const calls: string[] = []
+
+		@Injectable()
+		@UseInterceptors(record(calls, 'log'))
+		class Connection implements OnInit, OnDestroy {
+			onInit() {
+				calls.push('onInit')
+				this.open()
+			}
+
+			open() {
+				calls.push('open')
+			}
+
+			onDestroy() {
+				calls.push('onDestroy')
+			}
+		}
+
+		let hooked: unknown
+		const container = Container.createOrGet()
+		container.register({
+			provide: Connection,
+			useClass: Connection,
+			onInit: (connection) => {
+				hooked = connection
+			},
+		})
+		const connection = await container.resolve(Connection)
+		expect(hooked).toBe(connection)
+
+		connection.open()
+		await container.destroy()
+		// Hooks run on the instance itself, so their calls are not intercepted
+		expect(calls).toEqual(['onInit', 'open', 'log:open', 'open', 'onDestroy'])
+	})
+
+	test('should intercept factory results and instances of child containers', async () => {
+		const calls: string[] = []
+		const parent = Container.create()
+		parent.intercept('CLIENT', record(calls, 'parent'))
+		const child = parent.createChild()
+		child.intercept('CLIENT', record(calls, 'child'))
+		child.register({
+			provide: 'CLIENT',
+			useFactory: () => ({ get: () => 'response' }),
+		})
+		child.register({ provide: 'VALUE', useValue: { get: () => 'value' } })
+		child.intercept('VALUE', record(calls, 'value'))
+
+		const client = await child.resolve<{ get(): string }>('CLIENT')
+		expect(client.get()).toBe('response')
+		;(await child.resolve<{ get(): string }>('VALUE')).get()
+		expect(calls).toEqual(['parent:get', 'child:get'])
+	})
+
+	test('should stop applying removed interceptors to new instances', async () => {
+		const calls: string[] = []
+
+		@Injectable({ scope: 'transient' })
+		class Task {
+			run() {
+				return 'done'
+			}
+		}
+
+		const container = Container.createOrGet()
+		const remove = container.intercept(Task, record(calls, 'log'))
+		container.register(Task)
+
+		const intercepted = await container.resolve(Task)
+		remove()
+		;(await container.resolve(Task)).run()
+		intercepted.run()
+		expect(calls).toEqual(['log:run'])
+		expect(intercepted.run).toBe(intercepted.run)
+	})
+
+	test('should run methods and accessors on the instance with #private fields', async () => {
+		const calls: string[] = []
+
+		@Injectable()
+		class Counter {
+			#count = 0
+
+			get count() {
+				return this.#count
+			}
+
+			set count(value: number) {
+				this.#count = value
+			}
+
+			@UseInterceptors(record(calls, 'log'))
+			increment() {
+				this.#count++
+			}
+
+			reset() {
+				this.#count = 0
+			}
+		}
+
+		const container = Container.createOrGet()
+		container.register(Counter)
+		const counter = await container.resolve(Counter)
+
+		counter.increment()
+		expect(counter.count).toBe(1)
+		counter.reset()
+		counter.count = 5
+		expect(counter.count).toBe(5)
+		expect(counter.reset).toBe(counter.reset)
+		expect(calls).toEqual(['log:increment'])
+	})
+
+	test('should intercept unregistered classes built on demand', async () => {
+		const calls: string[] = []
+
+		@Injectable()
+		@UseInterceptors(record(calls, 'declared'))
+		class Formatter {
+			format(value: string) {
+				return `[${value}]`
+			}
+		}
+
+		@Injectable()
+		class Printer {
+			print() {
+				return 'printed'
+			}
+		}
+
+		@Injectable()
+		class Report {
+			constructor(
+				public formatter: Formatter,
+				public printer: Printer,
+			) {}
+		}
+
+		const container = Container.createOrGet()
+		container.intercept(Printer, record(calls, 'container'))
+		container.register(Report)
+		const report = await container.resolve(Report)
+
+		expect(report.formatter.format('a')).toBe('[a]')
+		expect(report.printer.print()).toBe('printed')
+		expect(calls).toEqual(['declared:format', 'container:print'])
+	})
+
+	test('should not wrap instances without interceptors', async () => {
+		@Injectable()
+		class Plain {
+			value = 1
+		}
+
+		const container = Container.createOrGet()
+		container.register(Plain)
+		const plain = await container.resolve(Plain)
+		expect(plain.value).toBe(1)
+		expect(Object.getPrototypeOf(plain)).toBe(Plain.prototype)
+	})
+})